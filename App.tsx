@@ -1,76 +1,194 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 
-import { Theme, AppStatus, PresentationData, EvaluationResult, CEFRLevel, VocabularyItem } from './types';
-import { PREDEFINED_THEMES, CEFR_LEVELS } from './constants';
+import { Theme, AppStatus, PresentationData, EvaluationResult, CEFRLevel, VocabularyItem, LearnerProfile, SavedLesson, VoiceSettings } from './types';
+import { PREDEFINED_THEMES, CEFR_LEVELS, DEFAULT_VOICE, TEACHER_VOICES, VOICE_ACCENTS, VOICE_PACES } from './constants';
 import {
   generateIllustration,
-  generatePresentationScript,
+  generatePresentation,
   generateTeacherVoice,
+  completeVocabulary,
   evaluatePresentation,
-  getApiKey // Import helper for API key management
+  getApiKey, // Import helper for API key management
+  AVAILABLE_PROVIDERS,
+  getActiveProviderId,
+  setActiveProviderId,
+  voiceKeyFor,
+  geminiRequestsFor
 } from './services/geminiService';
+import { CallObserver, MainProviderId } from './services/providers/aiProvider';
+import { LocalLlmConfig, loadLocalLlmConfig, saveLocalLlmConfig } from './services/providers/openAICompatibleProvider';
+import { encodeWav, pickRecordingMimeType, blobToBase64, trimSilence } from './services/audioUtils';
+import { precheckRecording } from './services/recordingCheck';
+import { analyzeFluency } from './services/fluencyAnalysis';
+import { estimateWordTimings, WordTiming } from './services/wordTiming';
+import { createTeacherPlayer, PlayerStatus, TeacherPlayer } from './services/teacherPlayer';
+import { countWords } from './services/scriptAlignment';
+import { MicLevel, startMicMonitor, loadSilenceStopSeconds, saveSilenceStopSeconds } from './services/micMonitor';
+import { OPERATION_LABELS, UsageOperation, budgetWarning, getUsageSummary, requestsTodayByKey } from './services/usageLedger';
+import { getKeyHealth, keyId, loadSavedApiKeys, resetKeyHealth, saveApiKeys } from './services/keyPool';
+import { AppError, MicrophoneDeniedError, RecoveryAction, toAppError } from './services/errors';
+import { saveAttempt, deleteAttemptsForProfile } from './services/historyService';
+import { addLessonVocab, deleteDeckForProfile } from './services/vocabDeckService';
+import { splitIntoSentences } from './services/shadowingService';
+import { getCachedLesson, saveLesson, saveLessonAudio, updateLesson, updateLessonContent, toAudioBuffer, lessonKey } from './services/lessonCacheService';
+import { GenerationState, createGenerationTracker } from './services/generationProgress';
+import { loadProfiles, saveProfiles, getActiveProfileId, setActiveProfileId, createProfile } from './services/profileService';
 import ThemeCard from './components/ThemeCard';
+import ProgressDashboard from './components/ProgressDashboard';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import AlignedScript from './components/AlignedScript';
+import FluencyStatsPanel from './components/FluencyStatsPanel';
+import WaveformCompare from './components/WaveformCompare';
+import ShadowingPractice from './components/ShadowingPractice';
+import VocabQuiz from './components/VocabQuiz';
+import LessonLibrary from './components/LessonLibrary';
+import LessonEditor from './components/LessonEditor';
+import PlacementTest from './components/PlacementTest';
+import GenerationProgress from './components/GenerationProgress';
 import {
   Mic, Play, Pause, RotateCcw, Sparkles, Wand2,
   Trophy, ArrowRight, MessageCircle,
-  ShieldCheck, StopCircle, CheckCircle2, AlertTriangle, HelpCircle, X, Download, Medal, BookOpen, Volume2, Settings2, Printer, Star, FileAudio, ImageIcon, Frown
+  ShieldCheck, StopCircle, CheckCircle2, AlertTriangle, HelpCircle, X, Download, Medal, BookOpen, Volume2, Settings2, Printer, Star, FileAudio, ImageIcon, Frown, TrendingUp, Repeat, Layers, Library, PenLine, Compass, Square, Plus, Trash2
 } from 'lucide-react';
 
+const RECOVERY_STYLES: Record<RecoveryAction, { color: string; icon: React.ReactNode }> = {
+  'retry': { color: 'bg-blue-500 hover:bg-blue-600', icon: <RotateCcw size={24} /> },
+  'settings': { color: 'bg-orange-500 hover:bg-orange-600', icon: <Settings2 size={24} /> },
+  'new-theme': { color: 'bg-purple-500 hover:bg-purple-600', icon: <Wand2 size={24} /> },
+  'library': { color: 'bg-teal-500 hover:bg-teal-600', icon: <Library size={24} /> },
+};
+
 const App: React.FC = () => {
   const [selectedTheme, setSelectedTheme] = useState<Theme | null>(null);
   const [customTheme, setCustomTheme] = useState('');
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [failure, setFailure] = useState<{ error: AppError; step: 'generate' | 'evaluate'; replace?: PresentationData } | null>(null); // replace: lesson being regenerated
   const [presentation, setPresentation] = useState<PresentationData | null>(null);
-  const [childName, setChildName] = useState('Leo');
-  const [level, setLevel] = useState<CEFRLevel>('Starters');
+  const [generation, setGeneration] = useState<GenerationState | null>(null);
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileIdState] = useState<string>(() => getActiveProfileId(loadProfiles()));
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || profiles[0];
+  const childName = activeProfile.name;
+  const playbackSpeed = activeProfile.playbackSpeed;
+  const [level, setLevel] = useState<CEFRLevel>(activeProfile.defaultLevel);
   const [result, setResult] = useState<EvaluationResult | null>(null);
   const [isAudioLoading, setIsAudioLoading] = useState(false);
-  const [audioState, setAudioState] = useState<'idle' | 'playing' | 'paused'>('idle');
-  const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
+  const [teacherBuffer, setTeacherBuffer] = useState<AudioBuffer | null>(null); // teacherBufferRef for rendering
+  const [isPrechecking, setIsPrechecking] = useState(false); // Recording is being analysed before it is sent
+  const [lessonUpdate, setLessonUpdate] = useState<'image' | 'script' | null>(null); // Redrawing the picture / rewriting the script
+  const [audioState, setAudioState] = useState<PlayerStatus>('idle');
+  const [playbackPosition, setPlaybackPosition] = useState(0);
+  const [activeWordIndex, setActiveWordIndex] = useState<number | null>(null);
   const [showCertificate, setShowCertificate] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [apiKey, setApiKey] = useState('');
+  const [showDashboard, setShowDashboard] = useState(false);
+  const [showVocabQuiz, setShowVocabQuiz] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showPlacement, setShowPlacement] = useState(false);
+  const [apiKeys, setApiKeys] = useState<string[]>(['']);
+  const [providerId, setProviderId] = useState<MainProviderId>(getActiveProviderId);
+  const [localLlm, setLocalLlm] = useState<LocalLlmConfig>(loadLocalLlmConfig);
+  const [localModelsText, setLocalModelsText] = useState(() => loadLocalLlmConfig().models.join(', '));
+  const [silenceStopSeconds, setSilenceStopSeconds] = useState(loadSilenceStopSeconds);
 
 
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [recordedUrl, setRecordedUrl] = useState<string | null>(null);
   const [isReplayingRecorded, setIsReplayingRecorded] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
+  const [micLevel, setMicLevel] = useState<MicLevel | null>(null);
   const [teacherAudioUrl, setTeacherAudioUrl] = useState<string | null>(null);
 
   const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const timerIntervalRef = useRef<number | null>(null);
+  const stopMicMonitorRef = useRef<(() => void) | null>(null);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const playerRef = useRef<TeacherPlayer | null>(null);
+  const teacherBufferRef = useRef<AudioBuffer | null>(null); // Full-script voice of the current lesson
+  const teacherVoiceKeyRef = useRef<string | null>(null);    // Voice that buffer was spoken in
+  const trackingFrameRef = useRef<number | null>(null);
+  const playingTimingsRef = useRef<WordTiming[]>([]);
+  const generationRunRef = useRef(0);                         // Bumped so a replaced generation stops reporting
+  const presentationRef = useRef<PresentationData | null>(null); // Lesson on screen, for results that arrive late
+  const statusRef = useRef(status);
 
   // Load settings from localStorage on mount
   useEffect(() => {
-    const savedApiKey = localStorage.getItem('speakpro_api_key');
-    if (savedApiKey) setApiKey(savedApiKey);
+    const savedApiKeys = loadSavedApiKeys();
+    if (savedApiKeys.length > 0) setApiKeys(savedApiKeys);
 
     // 🔑 UX Improvement: Auto-show Settings if no API key exists
     // Check both localStorage and env variable
-    const hasApiKey = savedApiKey || process.env.API_KEY;
+    // The offline mock provider needs no key at all
+    const hasApiKey = savedApiKeys.length > 0 || process.env.API_KEY || getActiveProviderId() === 'mock';
     if (!hasApiKey) {
       // Delay slightly to avoid jarring immediate modal on first load
       setTimeout(() => setShowSettings(true), 500);
     }
   }, []);
 
+  // Playback and the recording timer only stop when the app unmounts - a new
+  // teacher voice URL must not cut off the voice that was just started
   useEffect(() => {
     return () => {
-      if (sourceNodeRef.current) sourceNodeRef.current.stop();
-      if (recordedUrl) URL.revokeObjectURL(recordedUrl);
-      if (teacherAudioUrl) URL.revokeObjectURL(teacherAudioUrl);
+      if (playerRef.current) { playerRef.current.dispose(); playerRef.current = null; }
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+      if (stopMicMonitorRef.current) { stopMicMonitorRef.current(); stopMicMonitorRef.current = null; }
       if (audioPlayerRef.current) audioPlayerRef.current.pause();
     };
-  }, [recordedUrl, teacherAudioUrl]);
+  }, []);
+
+  useEffect(() => {
+    return () => { if (recordedUrl) URL.revokeObjectURL(recordedUrl); };
+  }, [recordedUrl]);
+
+  useEffect(() => {
+    return () => { if (teacherAudioUrl) URL.revokeObjectURL(teacherAudioUrl); };
+  }, [teacherAudioUrl]);
+
+  const updateProfiles = (next: LearnerProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const selectProfile = (profile: LearnerProfile) => {
+    setActiveProfileId(profile.id);
+    setActiveProfileIdState(profile.id);
+    setLevel(profile.defaultLevel);
+  };
+
+  const handleAddProfile = (): LearnerProfile => {
+    const profile = createProfile('Bé mới');
+    updateProfiles([...profiles, profile]);
+    selectProfile(profile);
+    return profile;
+  };
+
+  const handleUpdateProfile = (profile: LearnerProfile) => {
+    updateProfiles(profiles.map(p => p.id === profile.id ? profile : p));
+    if (profile.id === activeProfile.id) setLevel(profile.defaultLevel);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    const remaining = profiles.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+    updateProfiles(remaining);
+    if (id === activeProfile.id) selectProfile(remaining[0]);
+    deleteAttemptsForProfile(id).catch(e => console.warn('Deleting profile history failed', e));
+    deleteDeckForProfile(id).catch(e => console.warn('Deleting profile vocabulary failed', e));
+  };
+
+  const setPlaybackSpeed = (speed: number) => {
+    updateProfiles(profiles.map(p => p.id === activeProfile.id ? { ...p, playbackSpeed: speed } : p));
+  };
+
+  const setVoice = (changes: Partial<VoiceSettings>) => {
+    updateProfiles(profiles.map(p => p.id === activeProfile.id ? { ...p, voice: { ...p.voice, ...changes } } : p));
+  };
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -78,117 +196,343 @@ const App: React.FC = () => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const renderEnhancedScript = (text: string, sectionColor: string) => {
+  // Script words in reading order - the same order the full-script voice speaks them
+  useEffect(() => {
+    presentationRef.current = presentation;
+  }, [presentation]);
+
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  const isDrawingImage = generation?.steps.some(s => s.id === 'image' && s.status === 'running') ?? false;
+  const isMatchingScript = !!presentation?.scriptWithoutImage && (generation?.steps.some(s => s.id === 'script' && s.status === 'running') ?? false);
+  const scriptSections = useMemo(() => presentation ? [presentation.intro, ...presentation.points, presentation.conclusion] : [], [presentation]);
+  const scriptWords = useMemo(() => scriptSections.flatMap(t => t.split(' ')), [scriptSections]);
+  const sectionOffsets = useMemo(() => scriptSections.reduce<number[]>((acc, _, i) => [...acc, i === 0 ? 0 : acc[i - 1] + scriptSections[i - 1].split(' ').length], []), [scriptSections]);
+  const wordTimings = useMemo(
+    () => (teacherBuffer && scriptWords.length > 0 ? estimateWordTimings(teacherBuffer, scriptWords) : null),
+    [scriptWords, teacherBuffer]
+  );
+
+  const renderEnhancedScript = (text: string, sectionColor: string, startIndex: number) => {
     if (!presentation) return null;
     const words = text.split(' ');
     const vocabWords = presentation.lessonVocab.map(v => v.word.toLowerCase());
     return words.map((word, i) => {
       const cleanWord = word.toLowerCase().replace(/[.,!?;:"]/g, '');
       const isNewWord = vocabWords.includes(cleanWord);
+      const isActive = activeWordIndex === startIndex + i;
       return (
-        <span key={i} className={`${isNewWord ? 'text-orange-600 font-black border-b-2 border-orange-200' : sectionColor}`}>
+        <span key={i} onClick={() => playFromWord(startIndex + i)} className={`cursor-pointer rounded-md transition-colors ${isActive ? 'bg-yellow-200' : 'hover:bg-orange-50'} ${isNewWord ? 'text-orange-600 font-black border-b-2 border-orange-200' : sectionColor}`}>
           {word}{' '}
         </span>
       );
     });
   };
 
-  const generateAudioForDownload = async (text: string) => {
-    try {
-      const buffer = await generateTeacherVoice(text);
-      // Convert AudioBuffer to WAV blob for download
-      const numChannels = buffer.numberOfChannels;
-      const sampleRate = buffer.sampleRate;
-      const length = buffer.length;
-      const arrayBuffer = new ArrayBuffer(44 + length * numChannels * 2);
-      const view = new DataView(arrayBuffer);
-
-      // WAV header
-      const writeString = (offset: number, s: string) => { for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i)); };
-      writeString(0, 'RIFF');
-      view.setUint32(4, 36 + length * numChannels * 2, true);
-      writeString(8, 'WAVE');
-      writeString(12, 'fmt ');
-      view.setUint32(16, 16, true);
-      view.setUint16(20, 1, true);
-      view.setUint16(22, numChannels, true);
-      view.setUint32(24, sampleRate, true);
-      view.setUint32(28, sampleRate * numChannels * 2, true);
-      view.setUint16(32, numChannels * 2, true);
-      view.setUint16(34, 16, true);
-      writeString(36, 'data');
-      view.setUint32(40, length * numChannels * 2, true);
-
-      // Audio data
-      let offset = 44;
-      for (let i = 0; i < length; i++) {
-        for (let ch = 0; ch < numChannels; ch++) {
-          const sample = Math.max(-1, Math.min(1, buffer.getChannelData(ch)[i]));
-          view.setInt16(offset, sample * 0x7FFF, true);
-          offset += 2;
-        }
-      }
+  // The ref is read right after a voice is loaded; the state re-renders the seek bar and waveform
+  const storeTeacherBuffer = (buffer: AudioBuffer | null) => {
+    teacherBufferRef.current = buffer;
+    setTeacherBuffer(buffer);
+  };
+
+  const setTeacherAudio = (buffer: AudioBuffer, voiceKey: string) => {
+    storeTeacherBuffer(buffer);
+    teacherVoiceKeyRef.current = voiceKey;
+    // Convert AudioBuffer to WAV blob for download
+    setTeacherAudioUrl(URL.createObjectURL(encodeWav(buffer)));
+  };
 
-      const blob = new Blob([arrayBuffer], { type: 'audio/wav' });
-      setTeacherAudioUrl(URL.createObjectURL(blob));
+  /**
+   * Full-script voice in the learner's chosen voice, kept with the saved lesson for offline use
+   */
+  const loadTeacherVoice = async (lesson: PresentationData, observer?: CallObserver): Promise<AudioBuffer> => {
+    const voiceKey = voiceKeyFor(activeProfile.voice, lesson.level);
+    const runId = generationRunRef.current;
+    const buffer = await generateTeacherVoice(lesson.script, activeProfile.voice, lesson.level, observer);
+    // The child may have left the lesson, or its script was rewritten, while the voice was made
+    if (generationRunRef.current !== runId || presentationRef.current?.script !== lesson.script) return buffer;
+    setTeacherAudio(buffer, voiceKey);
+    // Mock audio must never replace the real voice of a saved lesson
+    if (getActiveProviderId() !== 'mock') {
+      saveLessonAudio(lessonKey(lesson.theme, lesson.level), buffer, voiceKey).catch(e => console.warn('Caching teacher audio failed', e));
+    }
+    return buffer;
+  };
+
+  const generateAudioForDownload = async (lesson: PresentationData) => {
+    try {
+      await loadTeacherVoice(lesson);
     } catch (e) {
       console.error("Audio generation for download failed", e);
     }
   };
 
-  const handleGenerate = async () => {
-    const themeText = customTheme || selectedTheme?.label;
+  const openLesson = (lesson: SavedLesson) => {
+    stopMainAudio();
+    generationRunRef.current++;
+    setGeneration(null);
+    setPresentation(lesson.presentation);
+    setLevel(lesson.level);
+    setResult(null);
+    setRecordedBlob(null); setRecordedUrl(null);
+    setShowLibrary(false);
+    storeTeacherBuffer(null);
+    teacherVoiceKeyRef.current = null;
+    setTeacherAudioUrl(null);
+    setStatus(AppStatus.READY);
+
+    updateLesson(lesson.id, { lastUsedAt: Date.now() }).catch(e => console.warn('Updating lesson failed', e));
+    // Demo sessions with the mock provider stay out of the learner's deck and history
+    if (getActiveProviderId() !== 'mock') {
+      addLessonVocab(activeProfile.id, lesson.presentation.lessonVocab, lesson.theme).catch(e => console.warn('Saving vocabulary failed', e));
+    }
+
+    const voiceKey = voiceKeyFor(activeProfile.voice, lesson.level);
+    const cachedVoiceKey = lesson.teacherAudio?.voiceKey || voiceKeyFor(DEFAULT_VOICE, lesson.level);
+    if (lesson.teacherAudio && cachedVoiceKey === voiceKey) {
+      setTeacherAudio(toAudioBuffer(lesson.teacherAudio), voiceKey);
+    } else {
+      generateAudioForDownload(lesson.presentation).catch(e => console.warn('Audio preload failed', e));
+    }
+  };
+
+  const handleSaveAuthoredLesson = async (authored: PresentationData) => {
+    try {
+      // Lessons are keyed by theme and level - never replace another lesson silently
+      const existing = await getCachedLesson(authored.theme, authored.level).catch(() => undefined);
+      if (existing && !confirm(`Thư viện đã có bài "${existing.title}" (${existing.level}) cùng chủ đề.\n\nThay bài đó bằng bài vừa soạn?`)) return;
+      const lesson = await saveLesson(authored);
+      setShowEditor(false);
+      openLesson(lesson);
+    } catch (e) {
+      console.error('[Editor] Saving lesson failed', e);
+      alert('Không lưu được bài học. Vui lòng thử lại!');
+    }
+  };
+
+  /**
+   * Build a lesson for the chosen theme, or a fresh version of `replace` that skips the saved copy
+   */
+  const handleGenerate = async (replace?: PresentationData) => {
+    const themeText = replace?.theme || customTheme || selectedTheme?.label;
+    const lessonLevel = replace?.level || level;
     if (!themeText) return;
     try {
-      setStatus(AppStatus.GENERATING);
-      setErrorMessage(null);
+      setFailure(null);
 
-      // Generate image first (required for script context)
-      const img = await generateIllustration(themeText);
+      // Same theme and level already generated? Reuse it - no quota, works offline
+      const cached = replace ? undefined : await getCachedLesson(themeText, lessonLevel).catch(() => undefined);
+      if (cached) {
+        openLesson(cached);
+        return;
+      }
+
+      const warning = budgetWarning(geminiRequestsFor('lesson'));
+      if (warning && !confirm(warning)) return;
+
+      setStatus(AppStatus.GENERATING);
+      stopMainAudio();
+      teacherVoiceKeyRef.current = null;
+      setTeacherAudioUrl(null);
+      const runId = ++generationRunRef.current;
+      const tracker = createGenerationTracker(lessonLevel, state => {
+        if (generationRunRef.current === runId) setGeneration(state);
+      });
 
-      // Then generate script with image context
-      const scriptData = await generatePresentationScript(img, themeText, level);
+      // Mock fixtures must never shadow a real lesson for the same theme and level
+      const isMock = getActiveProviderId() === 'mock';
 
-      const fullScript = `${scriptData.intro} ${scriptData.points.join(' ')} ${scriptData.conclusion}`;
-      setPresentation({
-        imageUri: img, ...scriptData,
-        script: fullScript,
-        level
+      // Picture and script are made side by side. A failed picture is not a failed
+      // lesson - the theme emoji stands in and the child can ask for it again.
+      let readyImageUri = '';
+      const imageTask = tracker.run('image', observer => generateIllustration(themeText, observer)).then(imageUri => {
+        readyImageUri = imageUri;
+        return imageUri;
+      }, err => {
+        console.warn('[SpeakPro] Illustration failed, showing the theme emoji', toAppError(err).code, err);
+        return '';
       });
+
+      // The script streams into the preview (validated, repaired if needed). It is
+      // written from the theme alone unless the picture is already there.
+      const newPresentation = await tracker.run('script', observer => generatePresentation(readyImageUri, themeText, lessonLevel, observer));
+      setPresentation(newPresentation);
+      storeTeacherBuffer(null);
       setStatus(AppStatus.READY);
+      if (!isMock) await saveLesson(newPresentation).catch(e => console.warn('Caching lesson failed', e));
+
+      // Late results go into the lesson on screen and the saved copy, unless the child moved on
+      const addToLesson = (changes: Partial<Pick<PresentationData, 'imageUri' | 'lessonVocab'>>) => {
+        if (generationRunRef.current !== runId) return;
+        setPresentation(current => current ? { ...current, ...changes } : current);
+        if (!isMock) updateLessonContent(lessonKey(themeText, lessonLevel), changes).catch(e => console.warn('Caching lesson failed', e));
+      };
+
+      // Once the picture arrives, a theme-only script is rewritten to describe what the
+      // child sees. It is not swapped in once the child has started speaking; a failed
+      // or unused rewrite leaves the "Viết lại theo tranh" button.
+      const matchPicture = async (imageUri: string): Promise<PresentationData> => {
+        const withImage = { ...newPresentation, imageUri };
+        if (!imageUri || !newPresentation.scriptWithoutImage) return withImage;
+        try {
+          const rewritten = await tracker.run('script', observer => generatePresentation(imageUri, themeText, lessonLevel, observer));
+          if (generationRunRef.current !== runId || statusRef.current !== AppStatus.READY) return withImage;
+          stopMainAudio();
+          setPresentation(rewritten);
+          storeTeacherBuffer(null);
+          teacherVoiceKeyRef.current = null;
+          setTeacherAudioUrl(null);
+          if (!isMock) await saveLesson(rewritten).catch(e => console.warn('Caching lesson failed', e));
+          return rewritten;
+        } catch (e) {
+          console.warn('Rewriting the script for the picture failed', e);
+          return withImage;
+        }
+      };
 
-      // Generate audio in background without blocking UI (optimization kept)
-      generateAudioForDownload(fullScript).catch(e => console.warn('Audio preload failed', e));
-    } catch (err: any) {
-      const errorMsg = err?.message || "Oops! Có lỗi rồi bé ơi.";
-      console.error('[SpeakPro Error]', err);
-      setErrorMessage(errorMsg);
+      // Picture, vocabulary and teacher voice finish in the background while the child reads.
+      // Vocabulary and voice wait for the final script, so neither is made twice.
+      imageTask.then(async imageUri => {
+        if (imageUri) addToLesson({ imageUri });
+        const lesson = await matchPicture(imageUri);
+        tracker.run('vocab', async observer => {
+          const lessonVocab = await completeVocabulary(lesson.lessonVocab, observer);
+          if (lessonVocab !== lesson.lessonVocab) addToLesson({ lessonVocab });
+          // Collect the new words into the learner's flashcard deck (not the mock fixtures)
+          if (!isMock) await addLessonVocab(activeProfile.id, lessonVocab, themeText);
+        }).catch(e => console.warn('Preparing vocabulary failed', e));
+        tracker.run('audio', observer => loadTeacherVoice(lesson, observer)).catch(e => console.warn('Audio preload failed', e));
+      });
+    } catch (err) {
+      const error = toAppError(err);
+      console.error('[SpeakPro Error]', error.code, error.detail || '', err);
+      setFailure({ error, step: 'generate', replace });
       setStatus(AppStatus.ERROR);
     }
   };
 
-  const playVoice = async (text: string) => {
+  const handleRegenerate = () => {
+    if (!presentation || lessonUpdate) return;
+    if (!confirm('Cô sẽ viết một bài mới cùng chủ đề và cấp độ, thay cho bài đang mở. Tiếp tục?')) return;
+    handleGenerate(presentation);
+  };
+
+  /**
+   * Try the picture again for a lesson that fell back to the theme emoji
+   */
+  const handleRedrawImage = async () => {
+    if (!presentation || lessonUpdate) return;
+    const warning = budgetWarning(geminiRequestsFor('image'));
+    if (warning && !confirm(warning)) return;
+    const id = lessonKey(presentation.theme, presentation.level);
+    setLessonUpdate('image');
+    try {
+      const imageUri = await generateIllustration(presentation.theme);
+      setPresentation(current => current && lessonKey(current.theme, current.level) === id ? { ...current, imageUri } : current);
+      if (getActiveProviderId() !== 'mock') await updateLessonContent(id, { imageUri }).catch(e => console.warn('Caching lesson failed', e));
+    } catch (err) {
+      alert(toAppError(err).message);
+    } finally {
+      setLessonUpdate(null);
+    }
+  };
+
+  /**
+   * Rewrite a script that was written before its picture existed, so it describes what the child sees
+   */
+  const handleRewriteWithImage = async () => {
+    if (!presentation || lessonUpdate) return;
+    const warning = budgetWarning(geminiRequestsFor('script'));
+    if (warning && !confirm(warning)) return;
+    const lesson = presentation;
+    setLessonUpdate('script');
+    try {
+      const rewritten = await generatePresentation(lesson.imageUri, lesson.theme, lesson.level);
+      stopMainAudio();
+      // Background steps of the first version must not touch the rewritten lesson
+      generationRunRef.current++;
+      setGeneration(null);
+      setPresentation(rewritten);
+      storeTeacherBuffer(null);
+      teacherVoiceKeyRef.current = null;
+      setTeacherAudioUrl(null);
+      if (getActiveProviderId() !== 'mock') {
+        await saveLesson(rewritten).catch(e => console.warn('Caching lesson failed', e));
+        addLessonVocab(activeProfile.id, rewritten.lessonVocab, rewritten.theme).catch(e => console.warn('Saving vocabulary failed', e));
+      }
+      generateAudioForDownload(rewritten).catch(e => console.warn('Audio preload failed', e));
+    } catch (err) {
+      alert(toAppError(err).message);
+    } finally {
+      setLessonUpdate(null);
+    }
+  };
+
+  const getPlayer = () => {
+    if (!playerRef.current) playerRef.current = createTeacherPlayer(setAudioState, playbackSpeed);
+    return playerRef.current;
+  };
+
+  useEffect(() => {
+    playerRef.current?.setSpeed(playbackSpeed);
+  }, [playbackSpeed]);
+
+  // Seek bar and karaoke highlight follow the player while it is playing
+  useEffect(() => {
+    if (audioState === 'idle') {
+      setPlaybackPosition(0);
+      setActiveWordIndex(null);
+    }
+    if (audioState !== 'playing') return;
+    const tick = () => {
+      const position = getPlayer().getPosition();
+      const index = playingTimingsRef.current.findIndex(t => position >= t.start && position < t.end);
+      setPlaybackPosition(position);
+      setActiveWordIndex(index >= 0 ? index : null);
+      trackingFrameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => { if (trackingFrameRef.current) cancelAnimationFrame(trackingFrameRef.current); };
+  }, [audioState]);
+
+  const playVoice = async (text: string, offset = 0) => {
     if (isAudioLoading) return;
     try {
       setIsAudioLoading(true);
-      if (!audioContextRef.current) audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const buffer = await generateTeacherVoice(text);
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = buffer;
-      source.playbackRate.value = playbackSpeed;
-      source.connect(audioContextRef.current.destination);
-      source.start(0);
-      source.onended = () => { if (text === presentation?.script) setAudioState('idle'); };
-      if (text === presentation?.script) {
-        sourceNodeRef.current = source;
-        setAudioState('playing');
+      if (!presentation || text !== presentation.script) {
+        getPlayer().playClip(await generateTeacherVoice(text, activeProfile.voice, level));
+        return;
       }
+      // The learner may have picked another voice since the lesson audio was made
+      const isCurrentVoice = teacherVoiceKeyRef.current === voiceKeyFor(activeProfile.voice, presentation.level);
+      const buffer = teacherBufferRef.current && isCurrentVoice ? teacherBufferRef.current : await loadTeacherVoice(presentation);
+      // Timings from the memo lag one render behind a freshly generated voice
+      playingTimingsRef.current = buffer === teacherBufferRef.current && wordTimings ? wordTimings : estimateWordTimings(buffer, scriptWords);
+      getPlayer().play(buffer, offset);
     } catch (err) { console.error(err); } finally { setIsAudioLoading(false); }
   };
 
+  const toggleMainAudio = () => {
+    if (!presentation) return;
+    if (audioState === 'playing') getPlayer().pause();
+    else if (audioState === 'paused') getPlayer().resume();
+    else playVoice(presentation.script, playbackPosition);
+  };
+
   const stopMainAudio = () => {
-    if (sourceNodeRef.current) { sourceNodeRef.current.stop(); sourceNodeRef.current = null; }
-    setAudioState('idle');
+    playerRef.current?.stop();
+  };
+
+  const seekMainAudio = (time: number) => {
+    getPlayer().seek(time);
+    setPlaybackPosition(time);
+  };
+
+  const playFromWord = (index: number) => {
+    if (!presentation) return;
+    playVoice(presentation.script, wordTimings?.[index]?.start ?? 0);
   };
 
   const startRecording = async () => {
@@ -209,11 +553,7 @@ const App: React.FC = () => {
       });
       setStatus(AppStatus.RECORDING);
 
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
-        ? 'audio/webm;codecs=opus'
-        : MediaRecorder.isTypeSupported('audio/webm')
-          ? 'audio/webm'
-          : 'audio/mp4';
+      const mimeType = pickRecordingMimeType();
       const mediaRecorder = new MediaRecorder(stream, {
         mimeType,
         audioBitsPerSecond: 128000
@@ -224,28 +564,38 @@ const App: React.FC = () => {
         if (e.data && e.data.size > 0) audioChunksRef.current.push(e.data);
       };
 
-      mediaRecorder.onstop = () => {
+      mediaRecorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
         if (audioChunksRef.current.length === 0) {
           alert("Không có dữ liệu âm thanh. Bé hãy thử lại nhé!");
           setStatus(AppStatus.READY);
           return;
         }
-        const blob = new Blob(audioChunksRef.current, { type: mimeType });
+        const raw = new Blob(audioChunksRef.current, { type: mimeType });
+        // Silence before the child starts and after they finish would count as pauses,
+        // and evaluation audio is billed per second
+        const blob = await trimSilence(raw).catch(e => { console.warn('Trimming silence failed', e); return raw; });
         setRecordedBlob(blob);
         setRecordedUrl(URL.createObjectURL(blob));
-        stream.getTracks().forEach(track => track.stop());
       };
 
+      stopMicMonitorRef.current = startMicMonitor(stream, {
+        onLevel: setMicLevel,
+        onSilence: stopRecording,
+        silenceMs: silenceStopSeconds * 1000,
+      });
       mediaRecorder.start(); // Using standard start for a single continuous recording
       timerIntervalRef.current = window.setInterval(() => setRecordingTime(p => p + 1), 1000);
     } catch (err) {
-      alert("Bé ơi, hãy cho phép dùng Microphone nhé!");
+      alert(new MicrophoneDeniedError(err).message);
       setStatus(AppStatus.READY);
     }
   };
 
   const stopRecording = () => {
     if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+    if (stopMicMonitorRef.current) { stopMicMonitorRef.current(); stopMicMonitorRef.current = null; }
+    setMicLevel(null);
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.stop();
     }
@@ -280,29 +630,88 @@ const App: React.FC = () => {
   };
 
   const handleSubmitEvaluation = async () => {
+    if (isPrechecking) return;
     if (!recordedBlob || recordedBlob.size < 1000) {
       alert("Bản ghi âm quá ngắn hoặc trống. Bé hãy thử nói lại nhé!");
       return;
     }
+    // Silent or noise-only recordings would only come back scored 0 - keep the quota.
+    // The button stays disabled meanwhile so a double tap cannot send two evaluations.
+    setIsPrechecking(true);
+    const problem = await precheckRecording(recordedBlob, countWords(presentation!.script)).finally(() => setIsPrechecking(false));
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    const warning = budgetWarning(geminiRequestsFor('evaluation'));
+    if (warning && !confirm(warning)) return;
     setStatus(AppStatus.EVALUATING);
     try {
-      const base64 = await new Promise<string>((res) => {
-        const reader = new FileReader();
-        reader.onloadend = () => res((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(recordedBlob);
-      });
-      const evalRes = await evaluatePresentation(presentation!.script, base64, recordedBlob.type, level);
+      const base64 = await blobToBase64(recordedBlob);
+      const evaluation = await evaluatePresentation(presentation!.script, base64, recordedBlob.type, level);
+      const fluencyStats = await analyzeFluency(recordedBlob, evaluation.transcript).catch(e => { console.warn('Fluency analysis failed', e); return undefined; });
+      const evalRes = { ...evaluation, fluencyStats };
       setResult(evalRes);
       setStatus(AppStatus.RESULT);
-    } catch (err: any) {
-      setErrorMessage(`❌ Lỗi khi chấm bài\n\n${err?.message || 'Vui lòng thử ghi âm lại hoặc kiểm tra API Key.'}`);
+
+      // Keep the attempt for the progress dashboard - a storage failure must not hide the result.
+      // Mock scores are fake and must not enter the learner's history.
+      if (getActiveProviderId() !== 'mock') {
+        saveAttempt(activeProfile.id, presentation!, evalRes, recordedBlob).catch(e => console.warn('Saving attempt failed', e));
+      }
+    } catch (err) {
+      const error = toAppError(err);
+      console.error('[SpeakPro Error]', error.code, error.detail || '', err);
+      setFailure({ error, step: 'evaluate' });
       setStatus(AppStatus.ERROR);
     }
   };
 
+  // Re-run whatever failed, with the same theme or the same recording
+  const retryFailedStep = () => {
+    if (!failure) return;
+    setFailure(null);
+    if (failure.step === 'evaluate') {
+      setStatus(AppStatus.READY);
+      handleSubmitEvaluation();
+    } else {
+      setStatus(AppStatus.IDLE);
+      handleGenerate(failure.replace);
+    }
+  };
+
+  const handleRecovery = (action: RecoveryAction) => {
+    if (action === 'retry') retryFailedStep();
+    if (action === 'settings') setShowSettings(true);
+    if (action === 'new-theme') reset();
+    if (action === 'library') setShowLibrary(true);
+  };
+
+  // Each sentence costs one teacher voice and one evaluation
+  const handleStartShadowing = () => {
+    if (!presentation) return;
+    const perSentence = geminiRequestsFor('speech') + geminiRequestsFor('evaluation');
+    const warning = budgetWarning(splitIntoSentences(presentation).length * perSentence);
+    if (warning && !confirm(warning)) return;
+    stopMainAudio();
+    setStatus(AppStatus.SHADOWING);
+  };
+
+  const handleShadowingFinish = (evalRes: EvaluationResult, recording: Blob) => {
+    setResult(evalRes);
+    setStatus(AppStatus.RESULT);
+    if (getActiveProviderId() !== 'mock') {
+      saveAttempt(activeProfile.id, presentation!, evalRes, recording).catch(e => console.warn('Saving attempt failed', e));
+    }
+  };
+
   const reset = () => {
+    stopMainAudio();
+    generationRunRef.current++;
+    setGeneration(null);
     setSelectedTheme(null); setPresentation(null); setResult(null); setStatus(AppStatus.IDLE);
     setRecordedBlob(null); setRecordedUrl(null); setTeacherAudioUrl(null);
+    storeTeacherBuffer(null);
   };
 
   const downloadImage = () => {
@@ -314,15 +723,24 @@ const App: React.FC = () => {
   };
 
   const saveSettings = () => {
-    if (!apiKey.trim()) {
+    const provider = AVAILABLE_PROVIDERS.find(p => p.id === providerId)!;
+    if (provider.requiresApiKey && !apiKeys.some(k => k.trim())) {
       alert('Vui lòng nhập API Key!');
       return;
     }
-    localStorage.setItem('speakpro_api_key', apiKey.trim());
+    const models = localModelsText.split(',').map(m => m.trim()).filter(Boolean);
+    if (localLlm.enabled && (!localLlm.baseUrl.trim() || models.length === 0)) {
+      alert('Vui lòng nhập địa chỉ và tên model của máy chủ nội bộ!');
+      return;
+    }
+    saveApiKeys(apiKeys);
+    setActiveProviderId(providerId);
+    saveLocalLlmConfig({ ...localLlm, baseUrl: localLlm.baseUrl.trim(), models });
+    saveSilenceStopSeconds(silenceStopSeconds);
 
     // 🔑 CRITICAL: Clear error and allow retry (following SKILL.md)
-    if (errorMessage) {
-      setErrorMessage(null);
+    if (failure) {
+      setFailure(null);
       // If in ERROR state, reset to appropriate state for retry
       if (status === AppStatus.ERROR) {
         // If there's a presentation, allow retry from READY state
@@ -341,6 +759,10 @@ const App: React.FC = () => {
 
   // No longer needed - using getApiKey() from service
 
+  // Read fresh from the ledger each time Settings is shown
+  const usage = showSettings ? getUsageSummary(geminiRequestsFor('lesson') + geminiRequestsFor('evaluation')) : null;
+  const keyRequestsToday = showSettings ? requestsTodayByKey() : {};
+
   return (
     <div className="min-h-screen bg-[#fffcf5] pb-20 font-['Quicksand'] relative overflow-x-hidden text-slate-700">
       <header className="bg-white/80 backdrop-blur-xl border-b-4 border-orange-100 sticky top-0 z-50 px-6 py-4 shadow-sm">
@@ -352,12 +774,20 @@ const App: React.FC = () => {
             <h1 className="text-2xl font-black text-orange-500 tracking-tighter">Speakpro</h1>
           </div>
           <div className="flex items-center gap-4">
+            <button onClick={() => setShowLibrary(true)} className="p-3 bg-orange-50 rounded-xl text-slate-400 hover:text-orange-500 shadow-md transition-all" title="Bài học đã lưu"><Library size={20} /></button>
+            <button onClick={() => setShowVocabQuiz(true)} className="p-3 bg-orange-50 rounded-xl text-slate-400 hover:text-orange-500 shadow-md transition-all" title="Ôn từ vựng"><Layers size={20} /></button>
+            <button onClick={() => setShowDashboard(true)} className="p-3 bg-orange-50 rounded-xl text-slate-400 hover:text-orange-500 shadow-md transition-all" title="Tiến bộ của bé"><TrendingUp size={20} /></button>
             <button onClick={() => setShowSettings(true)} className="p-3 bg-orange-50 rounded-xl text-slate-400 hover:text-orange-500 shadow-md transition-all" title="Cài đặt"><Settings2 size={20} /></button>
-            <div className="flex flex-col items-end">
-              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">Học sinh</span>
-              <input type="text" value={childName} onChange={e => setChildName(e.target.value)} className="bg-transparent border-none outline-none font-black text-slate-800 w-24 text-right text-sm" />
-            </div>
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfile={activeProfile}
+              onSelect={id => selectProfile(profiles.find(p => p.id === id)!)}
+              onAdd={handleAddProfile}
+              onUpdate={handleUpdateProfile}
+              onDelete={handleDeleteProfile}
+            />
             <div className="w-px h-8 bg-orange-100 mx-2" />
+            <button onClick={() => setShowPlacement(true)} className="p-2 bg-orange-50 rounded-xl text-slate-400 hover:text-blue-500 transition-all" title="Kiểm tra trình độ"><Compass size={18} /></button>
             <select value={level} onChange={e => setLevel(e.target.value as CEFRLevel)} className="bg-orange-50 px-4 py-2 rounded-xl font-black text-blue-500 outline-none text-xs uppercase tracking-widest cursor-pointer">
               {CEFR_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
             </select>
@@ -378,47 +808,45 @@ const App: React.FC = () => {
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-6">
               {PREDEFINED_THEMES.map((t) => <ThemeCard key={t.id} theme={t} isSelected={selectedTheme?.id === t.id} onClick={(theme) => { setSelectedTheme(theme); setCustomTheme(''); }} />)}
             </div>
-            <div className="flex justify-center"><button disabled={!selectedTheme && !customTheme} onClick={handleGenerate} className="px-16 py-6 rounded-[2rem] font-black text-2xl shadow-xl bg-gradient-to-r from-orange-500 to-yellow-500 text-white hover:scale-105 active:scale-95 transition-all flex items-center gap-4 border-b-4 border-orange-700">Tạo bài học ngay <ArrowRight size={32} /></button></div>
+            <div className="flex flex-col items-center gap-6">
+              <button disabled={!selectedTheme && !customTheme} onClick={() => handleGenerate()} className="px-16 py-6 rounded-[2rem] font-black text-2xl shadow-xl bg-gradient-to-r from-orange-500 to-yellow-500 text-white hover:scale-105 active:scale-95 transition-all flex items-center gap-4 border-b-4 border-orange-700">Tạo bài học ngay <ArrowRight size={32} /></button>
+              <button onClick={() => setShowEditor(true)} className="px-8 py-3 rounded-2xl font-black text-slate-400 hover:text-orange-500 hover:bg-orange-50 transition-all flex items-center gap-2"><PenLine size={20} /> Hoặc tự soạn bài cho bé</button>
+            </div>
           </div>
         )}
 
         {/* ERROR STATE - with retry mechanism following SKILL.md */}
-        {status === AppStatus.ERROR && errorMessage && (
+        {status === AppStatus.ERROR && failure && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] space-y-8">
             <div className="w-40 h-40 bg-red-50 rounded-[3rem] flex items-center justify-center shadow-xl border-4 border-white">
               <AlertTriangle size={80} className="text-red-500" />
             </div>
             <div className="max-w-2xl bg-red-50 border-4 border-red-100 rounded-[3rem] p-10 text-center space-y-6">
-              <h3 className="text-3xl font-black text-red-600">Ối! Có lỗi rồi</h3>
+              <p className="text-sm font-black text-red-300 uppercase tracking-widest">{failure.step === 'evaluate' ? 'Lỗi khi chấm bài' : 'Lỗi khi tạo bài học'}</p>
+              <h3 className="text-3xl font-black text-red-600">{failure.error.title}</h3>
               <p className="text-xl text-slate-700 font-bold whitespace-pre-line leading-relaxed">
-                {errorMessage}
+                {failure.error.hint}
               </p>
               <div className="flex flex-col sm:flex-row gap-4 justify-center pt-4">
-                <button
-                  onClick={() => setShowSettings(true)}
-                  className="px-8 py-4 bg-orange-500 hover:bg-orange-600 text-white rounded-2xl font-black text-lg shadow-lg transition-all flex items-center gap-3 justify-center"
-                >
-                  <Settings2 size={24} /> Đổi API Key
-                </button>
-                {/* Retry button - only show if we have presentation (mid-process error) */}
-                {presentation && (
+                {/* Recovery actions fitting this error code */}
+                {failure.error.recovery.map(r => (
                   <button
-                    onClick={() => {
-                      setErrorMessage(null);
-                      setStatus(AppStatus.READY);
-                    }}
-                    className="px-8 py-4 bg-blue-500 hover:bg-blue-600 text-white rounded-2xl font-black text-lg shadow-lg transition-all flex items-center gap-3 justify-center"
+                    key={r.action}
+                    onClick={() => handleRecovery(r.action)}
+                    className={`px-8 py-4 ${RECOVERY_STYLES[r.action].color} text-white rounded-2xl font-black text-lg shadow-lg transition-all flex items-center gap-3 justify-center`}
                   >
-                    <RotateCcw size={24} /> Thử lại
+                    {RECOVERY_STYLES[r.action].icon} {r.label}
                   </button>
-                )}
+                ))}
                 {/* Start over button */}
-                <button
-                  onClick={reset}
-                  className="px-8 py-4 bg-slate-500 hover:bg-slate-600 text-white rounded-2xl font-black text-lg shadow-lg transition-all flex items-center gap-3 justify-center"
-                >
-                  <ArrowRight size={24} /> Bài mới
-                </button>
+                {!failure.error.recovery.some(r => r.action === 'new-theme') && (
+                  <button
+                    onClick={reset}
+                    className="px-8 py-4 bg-slate-500 hover:bg-slate-600 text-white rounded-2xl font-black text-lg shadow-lg transition-all flex items-center gap-3 justify-center"
+                  >
+                    <ArrowRight size={24} /> Bài mới
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -426,9 +854,9 @@ const App: React.FC = () => {
 
         {status === AppStatus.GENERATING && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] space-y-8">
-            <div className="w-40 h-40 bg-yellow-50 rounded-[3rem] flex items-center justify-center animate-bounce shadow-xl border-4 border-white"><Sparkles size={80} className="text-yellow-400" /></div>
+            <div className="w-28 h-28 bg-yellow-50 rounded-[2.5rem] flex items-center justify-center animate-bounce shadow-xl border-4 border-white"><Sparkles size={56} className="text-yellow-400" /></div>
             <h3 className="text-3xl font-black text-slate-800 text-center">Chờ cô Ly một xíu nhé... 🎨</h3>
-            <p className="text-sm text-slate-500 font-bold mt-2">Đang dùng model: <span className="text-orange-500">gemini-2.5-flash-lite</span></p>
+            {generation && <GenerationProgress state={generation} />}
             <div className="flex items-center gap-2 text-xs text-slate-400">
               <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
               <span>Hệ thống sẽ tự động thử model khác nếu gặp lỗi</span>
@@ -438,17 +866,28 @@ const App: React.FC = () => {
 
         {(status === AppStatus.READY || status === AppStatus.RECORDING || status === AppStatus.REVIEWING) && presentation && (
           <div className="animate-in fade-in duration-700 space-y-10 pb-40">
+            {generation && generation.steps.some(s => s.status === 'running') && <GenerationProgress state={generation} compact />}
             <div className="bg-white rounded-[3rem] shadow-2xl border-8 border-orange-100 overflow-hidden flex flex-col min-h-[70vh]">
               <div className="bg-orange-50/50 px-10 py-6 border-b-4 border-dashed border-orange-100 flex items-center justify-between">
                 <div className="flex items-center gap-6">
-                  <div className="w-16 h-16 bg-white rounded-full border-4 border-orange-200 overflow-hidden flex items-center justify-center text-3xl shadow-sm">👦</div>
+                  <div className="w-16 h-16 bg-white rounded-full border-4 border-orange-200 overflow-hidden flex items-center justify-center text-3xl shadow-sm">{activeProfile.avatar}</div>
                   <div>
                     <h2 className="text-3xl font-black text-slate-800 leading-none">Hello! My name is {childName}.</h2>
                     <p className="text-blue-500 font-bold mt-1 uppercase tracking-widest text-sm">Today, I will talk about this picture.</p>
                   </div>
                 </div>
                 <div className="flex items-center gap-4">
-                  <button onClick={downloadImage} className="p-4 bg-white rounded-2xl text-slate-400 hover:text-blue-500 shadow-md transition-all flex items-center gap-2 font-bold text-sm"><ImageIcon size={20} /> Tải ảnh</button>
+                  {status === AppStatus.READY && (
+                    <button onClick={handleRegenerate} disabled={!!lessonUpdate} className="p-4 bg-white rounded-2xl text-slate-400 hover:text-orange-500 shadow-md transition-all flex items-center gap-2 font-bold text-sm disabled:opacity-50" title="Bỏ qua bài đã lưu và tạo bài khác">
+                      <RotateCcw size={20} /> Tạo bài mới
+                    </button>
+                  )}
+                  {presentation.imageUri && presentation.scriptWithoutImage && !isMatchingScript && (
+                    <button onClick={handleRewriteWithImage} disabled={!!lessonUpdate} className="p-4 bg-white rounded-2xl text-slate-400 hover:text-purple-500 shadow-md transition-all flex items-center gap-2 font-bold text-sm disabled:opacity-50" title="Bài nói được viết trước khi có tranh">
+                      {lessonUpdate === 'script' ? <div className="w-5 h-5 border-4 border-purple-400 border-t-transparent animate-spin rounded-full" /> : <Wand2 size={20} />} Viết lại theo tranh
+                    </button>
+                  )}
+                  {presentation.imageUri && <button onClick={downloadImage} className="p-4 bg-white rounded-2xl text-slate-400 hover:text-blue-500 shadow-md transition-all flex items-center gap-2 font-bold text-sm"><ImageIcon size={20} /> Tải ảnh</button>}
                   {teacherAudioUrl && (
                     <a href={teacherAudioUrl} download={`teacher-voice-${childName}.wav`} className="p-4 bg-white rounded-2xl text-slate-400 hover:text-orange-500 shadow-md transition-all flex items-center gap-2 font-bold text-sm">
                       <FileAudio size={20} /> Tải bài mẫu
@@ -460,38 +899,62 @@ const App: React.FC = () => {
               <div className="flex flex-col lg:flex-row flex-1">
                 <div className="lg:w-1/2 p-8 border-r-4 border-dashed border-orange-50">
                   <div className="w-full h-full min-h-[350px] rounded-[2rem] overflow-hidden shadow-lg border-4 border-white bg-slate-50 flex items-center justify-center">
-                    <img src={presentation.imageUri} className="w-full h-full object-cover" alt="Illustration" />
+                    {presentation.imageUri ? (
+                      <img src={presentation.imageUri} className="w-full h-full object-cover" alt="Illustration" />
+                    ) : isDrawingImage ? (
+                      <div className="flex flex-col items-center gap-4 text-slate-400 font-bold">
+                        <div className="w-12 h-12 border-4 border-orange-300 border-t-transparent animate-spin rounded-full" />
+                        Cô đang vẽ tranh, bé đọc bài trước nhé...
+                      </div>
+                    ) : (
+                      <div className="flex flex-col items-center gap-4">
+                        <span className="text-[10rem]">{PREDEFINED_THEMES.find(t => t.label.toLowerCase() === presentation.theme.toLowerCase())?.icon || '🎤'}</span>
+                        <button onClick={handleRedrawImage} disabled={!!lessonUpdate} className="px-5 py-3 bg-white rounded-2xl text-slate-500 hover:text-orange-500 shadow-md transition-all flex items-center gap-2 font-bold text-sm disabled:opacity-50">
+                          {lessonUpdate === 'image' ? <div className="w-5 h-5 border-4 border-orange-400 border-t-transparent animate-spin rounded-full" /> : <ImageIcon size={20} />} Vẽ tranh
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
 
                 <div className="lg:w-1/2 p-10 bg-[#fffdfa] relative">
                   <div className="absolute top-6 right-6 flex items-center gap-3">
-                    <button onClick={() => audioState === 'playing' ? stopMainAudio() : playVoice(presentation.script)} className="w-14 h-14 bg-orange-500 text-white rounded-2xl flex items-center justify-center shadow-lg hover:scale-110 transition-all">
+                    <button onClick={toggleMainAudio} className="w-14 h-14 bg-orange-500 text-white rounded-2xl flex items-center justify-center shadow-lg hover:scale-110 transition-all">
                       {isAudioLoading ? <div className="w-6 h-6 border-4 border-white border-t-transparent animate-spin rounded-full" /> : audioState === 'playing' ? <Pause size={28} /> : <Play size={28} />}
                     </button>
+                    {audioState !== 'idle' && (
+                      <button onClick={stopMainAudio} className="w-10 h-10 bg-white border-2 border-orange-100 text-orange-500 rounded-xl flex items-center justify-center hover:bg-orange-50 transition-all" title="Dừng"><Square size={16} /></button>
+                    )}
                     <select value={playbackSpeed} onChange={(e) => setPlaybackSpeed(parseFloat(e.target.value))} className="bg-white border-2 border-orange-100 px-3 py-2 rounded-xl font-bold text-xs outline-none cursor-pointer">
                       <option value="0.8">Chậm</option>
-                      <option value="1.0">Vừa</option>
+                      <option value="1">Vừa</option>
                       <option value="1.2">Nhanh</option>
                     </select>
                   </div>
 
                   <div className="space-y-5 pt-10 overflow-y-auto max-h-[500px] pr-2">
+                    {teacherBuffer && (
+                      <div className="flex items-center gap-3 text-xs font-black text-slate-400">
+                        <span className="w-10 text-right">{formatTime(Math.floor(playbackPosition))}</span>
+                        <input type="range" min={0} max={teacherBuffer.duration} step={0.1} value={playbackPosition} onChange={e => seekMainAudio(parseFloat(e.target.value))} className="flex-1 accent-orange-500 cursor-pointer" />
+                        <span className="w-10">{formatTime(Math.floor(teacherBuffer.duration))}</span>
+                      </div>
+                    )}
                     <p className="text-xl font-bold leading-relaxed text-blue-600 italic">
-                      {renderEnhancedScript(presentation.intro, "text-blue-600")}
+                      {renderEnhancedScript(presentation.intro, "text-blue-600", sectionOffsets[0])}
                     </p>
                     <ul className="space-y-3">
                       {presentation.points.map((p, i) => (
                         <li key={i} className="flex items-start gap-3">
                           <div className="w-2 h-2 bg-orange-400 rounded-full mt-2 shrink-0" />
                           <p className="text-lg font-bold leading-relaxed text-slate-700">
-                            {renderEnhancedScript(p, "text-slate-700")}
+                            {renderEnhancedScript(p, "text-slate-700", sectionOffsets[i + 1])}
                           </p>
                         </li>
                       ))}
                     </ul>
                     <p className="text-xl font-bold leading-relaxed text-pink-600 italic border-t-2 border-dashed border-pink-100 pt-5 mt-4">
-                      {renderEnhancedScript(presentation.conclusion, "text-pink-600")}
+                      {renderEnhancedScript(presentation.conclusion, "text-pink-600", sectionOffsets[presentation.points.length + 1])}
                     </p>
                   </div>
                 </div>
@@ -514,11 +977,20 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {status === AppStatus.REVIEWING && recordedBlob && (
+              <WaveformCompare recording={recordedBlob} teacherBuffer={teacherBuffer} />
+            )}
+
             <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-[100] w-full max-w-2xl px-6">
               {status === AppStatus.READY && (
-                <button onClick={startRecording} className="w-full bg-gradient-to-r from-orange-500 to-yellow-500 text-white py-8 rounded-[2.5rem] font-black text-3xl flex items-center justify-center gap-6 shadow-2xl hover:-translate-y-2 transition-all border-4 border-white">
-                  <Mic size={40} /> Bé hãy nhấn để nói! 🎤
-                </button>
+                <div className="flex flex-col gap-3">
+                  <button onClick={startRecording} className="w-full bg-gradient-to-r from-orange-500 to-yellow-500 text-white py-8 rounded-[2.5rem] font-black text-3xl flex items-center justify-center gap-6 shadow-2xl hover:-translate-y-2 transition-all border-4 border-white">
+                    <Mic size={40} /> Bé hãy nhấn để nói! 🎤
+                  </button>
+                  <button onClick={handleStartShadowing} className="w-full bg-white/95 backdrop-blur-md text-blue-500 py-4 rounded-[2rem] font-black text-lg flex items-center justify-center gap-3 shadow-xl hover:-translate-y-1 transition-all border-4 border-blue-100">
+                    <Repeat size={24} /> Luyện từng câu theo cô
+                  </button>
+                </div>
               )}
               {status === AppStatus.RECORDING && (
                 <div className="flex flex-col gap-4 animate-in slide-in-from-bottom-5">
@@ -526,19 +998,39 @@ const App: React.FC = () => {
                     <div className="flex items-center gap-4"><div className="w-4 h-4 bg-red-500 rounded-full animate-ping" /><p className="font-black text-slate-800 uppercase tracking-tighter text-lg">ĐANG NGHE BÉ... {formatTime(recordingTime)}</p></div>
                     <button onClick={stopRecording} className="bg-red-600 text-white px-8 py-3 rounded-2xl font-black text-lg shadow-lg hover:bg-red-700 transition-all flex items-center gap-2"><StopCircle size={24} /> XONG!</button>
                   </div>
+                  {micLevel && (
+                    <div className="bg-white/95 backdrop-blur-md border-4 border-red-100 px-6 py-4 rounded-[2rem] shadow-xl space-y-2">
+                      <div className="h-4 bg-slate-100 rounded-full overflow-hidden">
+                        <div className={`h-full rounded-full transition-all duration-75 ${micLevel.warning === 'clipping' ? 'bg-red-500' : micLevel.level > 0.25 ? 'bg-green-500' : 'bg-yellow-400'}`} style={{ width: `${Math.round(micLevel.level * 100)}%` }} />
+                      </div>
+                      {micLevel.warning === 'quiet' && <p className="text-sm font-black text-yellow-600 flex items-center gap-2"><Volume2 size={16} /> Cô chưa nghe rõ - bé nói to hơn hoặc lại gần micro nhé!</p>}
+                      {micLevel.warning === 'clipping' && <p className="text-sm font-black text-red-500 flex items-center gap-2"><AlertTriangle size={16} /> To quá rồi! Bé lùi xa micro một chút nhé.</p>}
+                    </div>
+                  )}
                 </div>
               )}
               {status === AppStatus.REVIEWING && (
                 <div className="bg-white/95 backdrop-blur-md border-4 border-blue-100 p-6 rounded-[3rem] shadow-2xl grid grid-cols-3 gap-6">
                   <button onClick={playRecordedAudio} className={`flex flex-col items-center gap-2 py-4 rounded-2xl transition-all ${isReplayingRecorded ? 'bg-blue-100 text-blue-700' : 'bg-slate-50'}`}>{isReplayingRecorded ? <Pause size={32} /> : <Play size={32} />} <span className="text-[10px] font-black">NGHE LẠI</span></button>
                   <button onClick={startRecording} className="flex flex-col items-center gap-2 py-4 rounded-2xl bg-pink-50 text-pink-500 hover:bg-pink-100"><RotateCcw size={32} /> <span className="text-[10px] font-black">THU LẠI</span></button>
-                  <button onClick={handleSubmitEvaluation} className="flex flex-col items-center gap-2 py-4 rounded-2xl bg-orange-500 text-white shadow-lg hover:scale-105 transition-all"><CheckCircle2 size={32} /> <span className="text-[10px] font-black uppercase tracking-widest">CHẤM BÀI</span></button>
+                  <button onClick={handleSubmitEvaluation} disabled={!recordedBlob || isPrechecking} className="flex flex-col items-center gap-2 py-4 rounded-2xl bg-orange-500 disabled:bg-slate-300 text-white shadow-lg hover:scale-105 transition-all"><CheckCircle2 size={32} /> <span className="text-[10px] font-black uppercase tracking-widest">CHẤM BÀI</span></button>
                 </div>
               )}
             </div>
           </div>
         )}
 
+        {status === AppStatus.SHADOWING && presentation && (
+          <ShadowingPractice
+            presentation={presentation}
+            level={level}
+            playbackSpeed={playbackSpeed}
+            voice={activeProfile.voice}
+            onFinish={handleShadowingFinish}
+            onExit={() => setStatus(AppStatus.READY)}
+          />
+        )}
+
         {status === AppStatus.EVALUATING && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] space-y-8">
             <div className="w-32 h-32 border-8 border-blue-50 border-t-blue-500 rounded-full animate-spin shadow-xl"></div>
@@ -564,6 +1056,7 @@ const App: React.FC = () => {
                       <div key={i.l} className={`p-8 bg-${i.c}-50 rounded-[2.5rem] border-2 border-${i.c}-100 text-center shadow-md`}><p className={`text-4xl font-black text-${i.c}-500`}>{i.s}/10</p><p className="text-[10px] font-black text-slate-400 uppercase mt-2 tracking-widest">{i.l}</p></div>
                     ))}
                   </div>
+                  {result.fluencyStats && <FluencyStatsPanel stats={result.fluencyStats} level={presentation?.level || level} />}
                 </div>
                 <div className="space-y-12">
                   <div className="bg-slate-50 p-12 rounded-[4rem] text-center border-4 border-white shadow-xl relative overflow-hidden">
@@ -578,6 +1071,28 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {result.wordAlignment.length > 0 && (
+                <div className="px-12 lg:px-20 pb-16 space-y-8">
+                  <h4 className="text-3xl font-black text-slate-800 flex items-center gap-4"><BookOpen size={40} className="text-green-500" /> Bé đọc từng từ thế nào?</h4>
+                  <div className="bg-[#fffdfa] p-10 rounded-[3rem] border-4 border-orange-50 shadow-inner">
+                    <AlignedScript alignment={result.wordAlignment} />
+                  </div>
+                  {result.mistakes.length > 0 && (
+                    <div className="grid md:grid-cols-2 gap-4">
+                      {result.mistakes.slice(0, 6).map((m, i) => (
+                        <div key={i} className="bg-white border-2 border-orange-50 p-5 rounded-[2rem] flex items-start gap-4 shadow-sm">
+                          <button onClick={() => playVoice(m.word)} className="w-10 h-10 bg-orange-50 text-orange-500 rounded-xl flex items-center justify-center hover:bg-orange-100 transition-all shrink-0"><Volume2 size={18} /></button>
+                          <div>
+                            <p className="font-black text-slate-800">{m.word}</p>
+                            <p className="text-sm font-bold text-slate-500 leading-snug">{m.tip}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="p-16 pt-0 flex flex-col sm:flex-row justify-center gap-8">
                 <button onClick={() => setStatus(AppStatus.READY)} className="px-12 py-6 rounded-[2rem] font-black text-xl text-slate-400 bg-slate-100 hover:bg-slate-200 transition-all flex items-center gap-4 shadow-md"><RotateCcw size={28} /> THỬ LẠI NHÉ</button>
                 <button onClick={reset} className="px-16 py-6 rounded-[2rem] font-black text-2xl bg-gradient-to-r from-blue-600 to-indigo-700 text-white hover:scale-105 shadow-xl transition-all flex items-center gap-4 group">BÀI MỚI THÔI <ArrowRight size={32} /></button>
@@ -615,12 +1130,24 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showDashboard && <ProgressDashboard profile={activeProfile} onClose={() => setShowDashboard(false)} />}
+      {showLibrary && <LessonLibrary onOpen={openLesson} onClose={() => setShowLibrary(false)} />}
+      {showPlacement && (
+        <PlacementTest
+          profile={activeProfile}
+          onApply={recommended => { handleUpdateProfile({ ...activeProfile, defaultLevel: recommended }); setShowPlacement(false); }}
+          onClose={() => setShowPlacement(false)}
+        />
+      )}
+      {showEditor && <LessonEditor initialLevel={level} onSave={handleSaveAuthoredLesson} onClose={() => setShowEditor(false)} />}
+      {showVocabQuiz && <VocabQuiz profile={activeProfile} onClose={() => setShowVocabQuiz(false)} />}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 z-[600] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-xl animate-in fade-in" onClick={() => setShowSettings(false)}>
           <div className="bg-white max-w-md w-full rounded-3xl shadow-2xl relative animate-in zoom-in-95" onClick={e => e.stopPropagation()}>
             <button onClick={() => setShowSettings(false)} className="absolute -top-4 -right-4 z-[610] p-3 bg-red-500 text-white rounded-full shadow-2xl hover:scale-110 transition-all border-4 border-white"><X size={24} /></button>
-            <div className="p-8 space-y-6">
+            <div className="p-8 space-y-6 max-h-[85vh] overflow-y-auto">
               <div className="flex items-center gap-3 pb-4 border-b-2 border-slate-100">
                 <div className="p-2 bg-teal-500 rounded-xl"><Settings2 size={24} className="text-white" /></div>
                 <h2 className="text-2xl font-black text-slate-800">Cài đặt hệ thống</h2>
@@ -635,9 +1162,42 @@ const App: React.FC = () => {
                   </div>
                 </div>
               </div>
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-slate-700 uppercase tracking-wide">Nguồn AI</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {AVAILABLE_PROVIDERS.map(p => (
+                    <button key={p.id} onClick={() => setProviderId(p.id)} className={`p-3 border-2 rounded-2xl text-sm font-black transition-all flex items-center justify-center gap-2 ${providerId === p.id ? 'border-teal-400 bg-teal-50 text-slate-800' : 'border-slate-200 text-slate-500 hover:border-slate-300'}`}>
+                      {providerId === p.id && <CheckCircle2 size={16} className="text-teal-500" />} {p.label}
+                    </button>
+                  ))}
+                </div>
+                {providerId === 'mock' && <p className="text-xs text-slate-500 italic px-2">Dữ liệu mẫu cố định, không cần mạng hay API Key - dùng để thử ứng dụng.</p>}
+              </div>
               <div className="space-y-2">
                 <label className="text-sm font-bold text-slate-700 flex items-center gap-2"><span className="text-teal-500">🔑</span> Dán API Key của bạn vào</label>
-                <input type="text" value={apiKey} onChange={e => setApiKey(e.target.value)} placeholder="AIza..." className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 focus:ring-2 focus:ring-teal-100 transition-all font-mono text-sm" />
+                {apiKeys.map((key, i) => {
+                  const trimmed = key.trim();
+                  const health = trimmed ? getKeyHealth(trimmed) : null;
+                  return (
+                    <div key={i} className="space-y-1">
+                      <div className="flex gap-2">
+                        <input type="text" value={key} onChange={e => setApiKeys(apiKeys.map((k, j) => (j === i ? e.target.value : k)))} placeholder="AIza..." className="flex-1 min-w-0 px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 focus:ring-2 focus:ring-teal-100 transition-all font-mono text-sm" />
+                        {apiKeys.length > 1 && <button onClick={() => setApiKeys(apiKeys.filter((_, j) => j !== i))} className="p-3 text-slate-300 hover:text-red-500 transition-colors" title="Xóa key"><Trash2 size={18} /></button>}
+                      </div>
+                      {health && (
+                        <div className="flex items-center gap-2 px-2 text-xs font-bold">
+                          {health.status === 'ok' && <span className="text-green-600">🟢 Sẵn sàng</span>}
+                          {health.status === 'cooling' && <span className="text-orange-500">🟠 Tạm nghỉ đến {new Date(health.cooldownUntil!).toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' })}</span>}
+                          {health.status === 'invalid' && <span className="text-red-500">🔴 {health.lastError}</span>}
+                          <span className="text-slate-400">· {keyRequestsToday[keyId(trimmed)] || 0} lượt hôm nay</span>
+                          {health.status !== 'ok' && <button onClick={() => { resetKeyHealth(trimmed); setApiKeys([...apiKeys]); }} className="ml-auto text-teal-600 underline">Thử lại</button>}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                <button onClick={() => setApiKeys([...apiKeys, ''])} className="text-sm font-bold text-teal-600 flex items-center gap-1 px-2 hover:text-teal-700"><Plus size={16} /> Thêm key</button>
+                <p className="text-xs text-slate-500 px-2">Lớp đông có thể thêm nhiều key (mỗi key một project). Yêu cầu được chia đều; key bị giới hạn sẽ tạm nghỉ và tự chuyển sang key khác.</p>
               </div>
               <div className="space-y-3">
                 <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">2. MODEL AI ĐANG SỬ DỤNG</h3>
@@ -665,8 +1225,67 @@ const App: React.FC = () => {
                     <p className="text-xs text-slate-500">Model chuyên tạo ảnh minh họa</p>
                   </div>
                 </div>
-                <p className="text-xs text-slate-500 italic px-2">💡 Hệ thống tự động chuyển model dự phòng nếu gặp lỗi. Free tier: 10 request/phút, 250 request/ngày.</p>
+                <p className="text-xs text-slate-500 italic px-2">💡 Hệ thống tự động chuyển model dự phòng nếu gặp lỗi. Free tier: 10 request/phút, 250 request/ngày cho mỗi key.</p>
+              </div>
+              <div className="space-y-3">
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-sm font-bold text-slate-700 uppercase tracking-wide">3. Máy chủ AI nội bộ</span>
+                  <input type="checkbox" checked={localLlm.enabled} onChange={e => setLocalLlm({ ...localLlm, enabled: e.target.checked })} className="w-5 h-5 accent-teal-500" />
+                </label>
+                <p className="text-xs text-slate-500 px-2">Soạn bài và chấm bài qua máy chủ OpenAI-compatible trong mạng LAN - bản ghi âm của bé không gửi ra ngoài. Ảnh và giọng đọc mẫu vẫn dùng nguồn AI ở trên.</p>
+                {localLlm.enabled && (
+                  <div className="space-y-2">
+                    <input type="text" value={localLlm.baseUrl} onChange={e => setLocalLlm({ ...localLlm, baseUrl: e.target.value })} placeholder="http://192.168.1.10:8000/v1" className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 font-mono text-sm" />
+                    <input type="text" value={localModelsText} onChange={e => setLocalModelsText(e.target.value)} placeholder="Model (cách nhau bằng dấu phẩy)" className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 font-mono text-sm" />
+                    <input type="password" value={localLlm.apiKey} onChange={e => setLocalLlm({ ...localLlm, apiKey: e.target.value })} placeholder="API Key (không bắt buộc)" className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 font-mono text-sm" />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-3">
+                <label className="text-sm font-bold text-slate-700 uppercase tracking-wide">4. Giọng đọc mẫu của {childName}</label>
+                <select value={activeProfile.voice.voiceName} onChange={e => setVoice({ voiceName: e.target.value })} className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 font-bold text-sm cursor-pointer">
+                  {TEACHER_VOICES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                </select>
+                <div className="grid grid-cols-2 gap-2">
+                  {VOICE_ACCENTS.map(a => (
+                    <button key={a.id} onClick={() => setVoice({ accent: a.id })} className={`py-2 rounded-xl border-2 font-bold text-sm transition-all ${activeProfile.voice.accent === a.id ? 'border-teal-500 bg-teal-50 text-teal-700' : 'border-slate-200 text-slate-500'}`}>{a.label}</button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <select value={activeProfile.voice.pace} onChange={e => setVoice({ pace: e.target.value as VoiceSettings['pace'] })} className="flex-1 px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 font-bold text-sm cursor-pointer">
+                    {VOICE_PACES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+                  <button onClick={() => playVoice("Hello! Let's practise speaking English together.")} className="px-4 py-3 bg-teal-50 text-teal-600 rounded-xl font-bold text-sm flex items-center gap-2 hover:bg-teal-100 transition-all"><Volume2 size={16} /> Nghe thử</button>
+                </div>
+                <p className="text-xs text-slate-500 px-2">Lưu riêng cho từng bé. Bài học đang mở sẽ đọc lại bằng giọng mới khi bấm nghe.</p>
               </div>
+              <div className="space-y-3">
+                <label className="text-sm font-bold text-slate-700 uppercase tracking-wide">5. Tự dừng ghi âm</label>
+                <div className="flex items-center gap-3">
+                  <input type="number" min={0} max={30} value={silenceStopSeconds} onChange={e => setSilenceStopSeconds(Math.max(0, Number(e.target.value) || 0))} className="w-24 px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-teal-400 font-mono text-sm" />
+                  <span className="text-sm text-slate-500">giây im lặng sau khi bé nói xong (0 = tắt)</span>
+                </div>
+              </div>
+              {usage && (
+                <div className="space-y-3">
+                  <label className="text-sm font-bold text-slate-700 uppercase tracking-wide">6. Lượt dùng Gemini hôm nay</label>
+                  <div className="p-4 border-2 rounded-2xl border-slate-100 bg-slate-50 space-y-3">
+                    <div className="flex items-baseline justify-between">
+                      <span className={`text-2xl font-black ${usage.lessonsLeft === 0 ? 'text-red-500' : 'text-slate-800'}`}>{usage.remainingRequests}<span className="text-sm text-slate-400"> / {usage.budget} lượt còn lại</span></span>
+                      {usage.lessonsLeft !== null && <span className="text-sm font-bold text-teal-600">≈ {usage.lessonsLeft} bài học</span>}
+                    </div>
+                    <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                      <div className={`h-full ${usage.lessonsLeft === 0 ? 'bg-red-500' : 'bg-teal-500'}`} style={{ width: `${Math.min(100, (usage.requests / usage.budget) * 100)}%` }} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-slate-500">
+                      {(Object.keys(OPERATION_LABELS) as UsageOperation[]).map(op => (
+                        <span key={op} className="flex justify-between"><span>{OPERATION_LABELS[op]}</span><span className="font-bold text-slate-700">{usage.byOperation[op]}</span></span>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500">Khoảng {usage.approxTokens.toLocaleString('vi-VN')} token. Hạn mức đặt lại lúc nửa đêm giờ Thái Bình Dương (14-15h giờ Việt Nam).</p>
+                  </div>
+                </div>
+              )}
               <button onClick={saveSettings} className="w-full py-4 bg-teal-500 hover:bg-teal-600 text-white font-black text-lg rounded-2xl shadow-lg hover:shadow-xl transition-all">Lưu cài đặt</button>
             </div>
           </div>
@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { AlignedWord, WordMatchStatus } from '../types';
+
+interface AlignedScriptProps {
+  alignment: AlignedWord[];
+}
+
+const STATUS_STYLES: Record<WordMatchStatus, string> = {
+  correct: 'text-green-600',
+  missed: 'text-slate-300 line-through decoration-red-400 decoration-2',
+  substituted: 'text-orange-500 border-b-4 border-orange-200',
+  inserted: 'text-purple-400 italic text-base',
+};
+
+const LEGEND: { status: WordMatchStatus; label: string; dot: string }[] = [
+  { status: 'correct', label: 'Đúng', dot: 'bg-green-500' },
+  { status: 'substituted', label: 'Nói sai', dot: 'bg-orange-400' },
+  { status: 'missed', label: 'Bỏ sót', dot: 'bg-slate-300' },
+  { status: 'inserted', label: 'Thêm vào', dot: 'bg-purple-400' },
+];
+
+const AlignedScript: React.FC<AlignedScriptProps> = ({ alignment }) => {
+  const correctCount = alignment.filter(w => w.status === 'correct').length;
+  const scriptCount = alignment.filter(w => w.status !== 'inserted').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        {LEGEND.map(l => (
+          <span key={l.status} className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            <span className={`w-3 h-3 rounded-full ${l.dot}`} /> {l.label}
+          </span>
+        ))}
+        <span className="ml-auto text-sm font-black text-green-600">{correctCount}/{scriptCount} từ đúng</span>
+      </div>
+      <p className="text-xl font-bold leading-loose">
+        {alignment.map((w, i) => (
+          <span key={i} className={STATUS_STYLES[w.status]} title={w.status === 'substituted' ? `Bé nói: "${w.spoken}"` : undefined}>
+            {w.status === 'inserted' ? `+${w.word}` : w.word}{' '}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+};
+
+export default AlignedScript;
@@ -0,0 +1,64 @@
+
+import React from 'react';
+import { CEFRLevel, FluencyStats } from '../types';
+import { FLUENCY_TARGETS } from '../services/fluencyAnalysis';
+import { Gauge } from 'lucide-react';
+
+interface FluencyStatsPanelProps {
+  stats: FluencyStats;
+  level: CEFRLevel;
+}
+
+interface StatTile {
+  label: string;
+  value: string;
+  target: string;
+  ok: boolean;
+  hint: string;                 // Why this hurts fluency, shown when out of range
+}
+
+const FluencyStatsPanel: React.FC<FluencyStatsPanelProps> = ({ stats, level }) => {
+  const target = FLUENCY_TARGETS[level];
+  const [minWpm, maxWpm] = target.wordsPerMinute;
+
+  const tiles: StatTile[] = [
+    {
+      label: 'Tốc độ nói', value: `${stats.wordsPerMinute} từ/phút`, target: `${minWpm}-${maxWpm}`,
+      ok: stats.wordsPerMinute >= minWpm && stats.wordsPerMinute <= maxWpm,
+      hint: stats.wordsPerMinute < minWpm ? 'Nói hơi chậm' : 'Nói hơi nhanh',
+    },
+    {
+      label: 'Ngập ngừng lâu nhất', value: `${stats.longestPause} giây`, target: `≤ ${target.longestPause} giây`,
+      ok: stats.longestPause <= target.longestPause,
+      hint: 'Dừng quá lâu giữa chừng',
+    },
+    {
+      label: `Ngừng trung bình (${stats.pauseCount} lần)`, value: `${stats.averagePause} giây`, target: `≤ ${target.averagePause} giây`,
+      ok: stats.averagePause <= target.averagePause,
+      hint: 'Các lần ngừng khá dài',
+    },
+    {
+      label: 'Thời gian nói', value: `${Math.round(stats.speechRatio * 100)}%`, target: `≥ ${Math.round(target.speechRatio * 100)}%`,
+      ok: stats.speechRatio >= target.speechRatio,
+      hint: 'Im lặng nhiều hơn nói',
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <h4 className="text-2xl font-black text-slate-800 flex items-center gap-3"><Gauge size={32} className="text-pink-500" /> Vì sao điểm trôi chảy như vậy?</h4>
+      <div className="grid grid-cols-2 gap-4">
+        {tiles.map(t => (
+          <div key={t.label} className={`p-6 rounded-[2rem] border-2 text-center shadow-sm ${t.ok ? 'bg-green-50 border-green-100' : 'bg-orange-50 border-orange-100'}`}>
+            <p className={`text-2xl font-black ${t.ok ? 'text-green-600' : 'text-orange-500'}`}>{t.value}</p>
+            <p className="text-[10px] font-black text-slate-400 uppercase mt-2 tracking-widest">{t.label}</p>
+            <p className="text-xs font-bold text-slate-500 mt-1">Mục tiêu {level}: {t.target}</p>
+            {!t.ok && <p className="text-xs font-black text-orange-600 mt-1">{t.hint}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FluencyStatsPanel;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationState, GenerationStep, GENERATION_STEP_LABELS } from '../services/generationProgress';
+import { CheckCircle2, Circle, Loader2, XCircle } from 'lucide-react';
+
+interface GenerationProgressProps {
+  state: GenerationState;
+  compact?: boolean;            // One-line steps above a ready lesson, no script preview
+}
+
+const STATUS_ICONS: Record<GenerationStep['status'], React.ReactNode> = {
+  pending: <Circle size={20} className="text-slate-300" />,
+  running: <Loader2 size={20} className="text-orange-500 animate-spin" />,
+  done: <CheckCircle2 size={20} className="text-green-500" />,
+  failed: <XCircle size={20} className="text-red-400" />,
+};
+
+const elapsed = (step: GenerationStep, now: number) => {
+  if (!step.startedAt) return '';
+  return `${(((step.finishedAt || now) - step.startedAt) / 1000).toFixed(1)}s`;
+};
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ state, compact }) => {
+  const [now, setNow] = useState(Date.now());
+  const running = state.steps.some(s => s.status === 'running');
+
+  // Tick the elapsed times only while something is still working
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const { intro, points, conclusion } = state.script;
+  const hasScript = !!(intro || points.length || conclusion);
+
+  if (compact) {
+    return (
+      <div className="flex flex-wrap items-center gap-3">
+        {state.steps.filter(s => s.status !== 'done').map(step => (
+          <div key={step.id} className="flex items-center gap-2 px-4 py-2 bg-white rounded-full border-2 border-orange-100 text-xs font-bold text-slate-500 shadow-sm">
+            {STATUS_ICONS[step.status]}
+            <span>{GENERATION_STEP_LABELS[step.id]}</span>
+            {step.status === 'running' && <span className="text-orange-500">{elapsed(step, now)}</span>}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-3xl space-y-6">
+      <div className="bg-white rounded-[2rem] shadow-xl border-4 border-orange-100 p-6 space-y-4">
+        {state.steps.map(step => (
+          <div key={step.id} className="space-y-2">
+            <div className="flex items-center gap-3">
+              {STATUS_ICONS[step.status]}
+              <span className={`font-black ${step.status === 'pending' ? 'text-slate-400' : 'text-slate-700'}`}>{GENERATION_STEP_LABELS[step.id]}</span>
+              {step.model && <span className="text-xs font-bold text-orange-500 bg-orange-50 px-2 py-1 rounded-lg">{step.model}</span>}
+              <span className="ml-auto text-xs font-black text-slate-400 tabular-nums">{elapsed(step, now)}</span>
+            </div>
+            {step.status === 'running' && (
+              <div className="h-2 bg-orange-50 rounded-full overflow-hidden">
+                {step.progress === null
+                  ? <div className="h-full w-1/3 bg-orange-300 rounded-full animate-pulse" />
+                  : <div className="h-full bg-orange-400 rounded-full transition-all" style={{ width: `${Math.round(step.progress * 100)}%` }} />}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {hasScript && (
+        <div className="bg-[#fffdfa] rounded-[2rem] shadow-lg border-4 border-white p-8 space-y-4">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Bé đọc trước nhé 👀</p>
+          {intro && <p className="text-xl font-bold leading-relaxed text-blue-600 italic">{intro}</p>}
+          {points.length > 0 && (
+            <ul className="space-y-3">
+              {points.map((p, i) => (
+                <li key={i} className="flex items-start gap-3">
+                  <div className="w-2 h-2 bg-orange-400 rounded-full mt-2 shrink-0" />
+                  <p className="text-lg font-bold leading-relaxed text-slate-700">{p}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {conclusion && <p className="text-xl font-bold leading-relaxed text-pink-600 italic border-t-2 border-dashed border-pink-100 pt-5">{conclusion}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationProgress;
@@ -0,0 +1,136 @@
+
+import React, { useState } from 'react';
+import { CEFRLevel, PresentationData, VocabularyItem } from '../types';
+import { CEFR_LEVELS } from '../constants';
+import { LEVEL_WORD_LIMITS } from '../services/prompts';
+import { countWords } from '../services/scriptAlignment';
+import { completeVocabulary } from '../services/geminiService';
+import { X, PenLine, ImagePlus, Plus, Trash2, Sparkles, CheckCircle2 } from 'lucide-react';
+
+interface LessonEditorProps {
+  initialLevel: CEFRLevel;
+  onSave: (presentation: PresentationData) => void;
+  onClose: () => void;
+}
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const emptyVocab = (): VocabularyItem => ({ word: '', ipa: '', translation: '', icon: '' });
+
+const LessonEditor: React.FC<LessonEditorProps> = ({ initialLevel, onSave, onClose }) => {
+  const [theme, setTheme] = useState('');
+  const [level, setLevel] = useState<CEFRLevel>(initialLevel);
+  const [imageUri, setImageUri] = useState('');
+  const [intro, setIntro] = useState('');
+  const [pointsText, setPointsText] = useState('');
+  const [conclusion, setConclusion] = useState('');
+  const [vocab, setVocab] = useState<VocabularyItem[]>([emptyVocab()]);
+  const [isFilling, setIsFilling] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const points = pointsText.split('\n').map(p => p.trim()).filter(Boolean);
+  const script = [intro.trim(), ...points, conclusion.trim()].filter(Boolean).join(' ');
+  const wordCount = countWords(script);
+  const limits = LEVEL_WORD_LIMITS[level];
+  const isWithinLimits = !limits || (wordCount >= limits.min && wordCount <= limits.max);
+
+  const handleImage = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) { setErrorMessage('Vui lòng chọn một file ảnh.'); return; }
+    if (file.size > MAX_IMAGE_BYTES) { setErrorMessage('Ảnh quá lớn (tối đa 5MB).'); return; }
+    const reader = new FileReader();
+    reader.onloadend = () => setImageUri(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const updateVocab = (index: number, changes: Partial<VocabularyItem>) => {
+    setVocab(prev => prev.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  const autoFill = async () => {
+    setIsFilling(true);
+    setErrorMessage(null);
+    try {
+      setVocab(await completeVocabulary(vocab));
+    } catch (err: any) {
+      setErrorMessage(`Không tự điền được: ${err?.message || 'Lỗi không xác định'}`);
+    } finally {
+      setIsFilling(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!theme.trim()) { setErrorMessage('Bài học cần có chủ đề.'); return; }
+    if (!intro.trim() || points.length === 0 || !conclusion.trim()) { setErrorMessage('Hãy viết đủ phần mở bài, ít nhất một ý chính và kết bài.'); return; }
+    if (!isWithinLimits) { setErrorMessage(`Bài ${level} cần ${limits.min}-${limits.max} từ, hiện có ${wordCount} từ.`); return; }
+    const lessonVocab = vocab.filter(v => v.word.trim()).map(v => ({ ...v, word: v.word.trim() }));
+    onSave({ theme: theme.trim(), imageUri, script, intro: intro.trim(), points, conclusion: conclusion.trim(), level, lessonVocab });
+  };
+
+  const textareaClass = "w-full px-5 py-4 border-2 border-slate-200 rounded-2xl outline-none focus:border-orange-300 font-bold text-slate-700 leading-relaxed resize-y";
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-start justify-center p-4 bg-slate-900/90 backdrop-blur-xl animate-in fade-in overflow-y-auto pt-10 pb-10" onClick={onClose}>
+      <div className="bg-[#fffcf5] max-w-4xl w-full rounded-[3rem] shadow-2xl relative animate-in zoom-in-95 border-8 border-orange-100 my-auto" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute -top-6 -right-6 z-[600] p-4 bg-red-500 text-white rounded-full shadow-2xl hover:scale-110 transition-all border-4 border-white"><X size={32} /></button>
+        <div className="p-10 md:p-14 space-y-8">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-to-tr from-pink-500 to-orange-400 rounded-2xl shadow-lg"><PenLine size={28} className="text-white" /></div>
+            <div>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight">Tự soạn bài học</h2>
+              <p className="text-sm font-bold text-slate-400">Dán bài của cô, tải ảnh riêng - không tốn lượt tạo ảnh hay soạn bài</p>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-[1fr_auto] gap-4">
+            <input type="text" value={theme} onChange={e => setTheme(e.target.value)} placeholder="Chủ đề: My Pet, The Beach..." className="px-5 py-4 border-2 border-slate-200 rounded-2xl outline-none focus:border-orange-300 font-black text-slate-800" />
+            <select value={level} onChange={e => setLevel(e.target.value as CEFRLevel)} className="bg-orange-50 px-4 py-4 rounded-2xl font-black text-blue-500 outline-none text-sm uppercase tracking-widest cursor-pointer">
+              {CEFR_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+
+          <label className="block h-48 rounded-[2rem] border-4 border-dashed border-orange-100 bg-white overflow-hidden cursor-pointer hover:border-orange-300 transition-all">
+            <input type="file" accept="image/*" className="hidden" onChange={e => handleImage(e.target.files?.[0])} />
+            {imageUri
+              ? <img src={imageUri} className="w-full h-full object-cover" alt="Ảnh bài học" />
+              : <div className="h-full flex flex-col items-center justify-center gap-2 text-slate-300 font-black"><ImagePlus size={40} /> Tải ảnh minh hoạ (không bắt buộc)</div>}
+          </label>
+
+          <div className="space-y-4">
+            <textarea rows={2} value={intro} onChange={e => setIntro(e.target.value)} placeholder="Mở bài: Hello! Today I will talk about..." className={textareaClass} />
+            <textarea rows={5} value={pointsText} onChange={e => setPointsText(e.target.value)} placeholder="Ý chính - mỗi dòng một ý" className={textareaClass} />
+            <textarea rows={2} value={conclusion} onChange={e => setConclusion(e.target.value)} placeholder="Kết bài: Thank you for listening!" className={textareaClass} />
+            <p className={`text-sm font-black flex items-center gap-2 ${isWithinLimits ? 'text-green-600' : 'text-red-500'}`}>
+              {isWithinLimits && <CheckCircle2 size={16} />} {wordCount} từ {limits && `(${level}: ${limits.min}-${limits.max} từ)`}
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest">Từ vựng của bài</h3>
+              <button onClick={autoFill} disabled={isFilling || !vocab.some(v => v.word.trim())} className="px-4 py-2 bg-blue-50 text-blue-500 disabled:opacity-50 rounded-xl font-black text-xs flex items-center gap-2 hover:bg-blue-100 transition-all">
+                {isFilling ? <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent animate-spin rounded-full" /> : <Sparkles size={14} />} Tự điền IPA & nghĩa
+              </button>
+            </div>
+            {vocab.map((v, i) => (
+              <div key={i} className="grid grid-cols-[4rem_1fr_1fr_1fr_auto] gap-2">
+                <input value={v.icon} onChange={e => updateVocab(i, { icon: e.target.value })} placeholder="🙂" className="px-2 py-3 border-2 border-slate-200 rounded-xl outline-none text-center text-xl" />
+                <input value={v.word} onChange={e => updateVocab(i, { word: e.target.value })} placeholder="word" className="px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-orange-300 font-black" />
+                <input value={v.ipa} onChange={e => updateVocab(i, { ipa: e.target.value })} placeholder="IPA" className="px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-orange-300 font-bold italic text-slate-500" />
+                <input value={v.translation} onChange={e => updateVocab(i, { translation: e.target.value })} placeholder="Nghĩa tiếng Việt" className="px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-orange-300 font-bold" />
+                <button onClick={() => setVocab(prev => prev.filter((_, j) => j !== i))} className="p-3 text-slate-300 hover:text-red-500 transition-colors"><Trash2 size={18} /></button>
+              </div>
+            ))}
+            <button onClick={() => setVocab(prev => [...prev, emptyVocab()])} className="w-full flex items-center justify-center gap-2 py-3 border-2 border-dashed border-orange-200 rounded-2xl text-orange-500 font-black text-sm hover:bg-orange-50 transition-all"><Plus size={18} /> Thêm từ</button>
+          </div>
+
+          {errorMessage && <p className="text-red-500 font-bold">{errorMessage}</p>}
+
+          <button onClick={handleSave} className="w-full py-5 bg-gradient-to-r from-orange-500 to-yellow-500 text-white font-black text-xl rounded-[2rem] shadow-xl hover:scale-[1.02] transition-all">Lưu và học bài này</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonEditor;
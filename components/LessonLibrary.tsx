@@ -0,0 +1,129 @@
+
+import React, { useEffect, useState } from 'react';
+import { SavedLesson } from '../types';
+import { listLessons, updateLesson, deleteLesson } from '../services/lessonCacheService';
+import { exportLessonPackage, importLessonPackage, packageFileName, PACKAGE_EXTENSION } from '../services/lessonPackageService';
+import { X, Library, Pin, PinOff, Pencil, Trash2, Play, FileAudio, Download, Upload } from 'lucide-react';
+
+interface LessonLibraryProps {
+  onOpen: (lesson: SavedLesson) => void;
+  onClose: () => void;
+}
+
+const LessonLibrary: React.FC<LessonLibraryProps> = ({ onOpen, onClose }) => {
+  const [lessons, setLessons] = useState<SavedLesson[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const reload = () => listLessons()
+    .then(setLessons)
+    .catch(e => console.error('[Library] Load failed', e))
+    .finally(() => setIsLoading(false));
+
+  useEffect(() => { reload(); }, []);
+
+  const togglePin = async (lesson: SavedLesson) => {
+    await updateLesson(lesson.id, { pinned: !lesson.pinned });
+    reload();
+  };
+
+  const saveTitle = async (lesson: SavedLesson) => {
+    if (draftTitle.trim()) await updateLesson(lesson.id, { title: draftTitle.trim() });
+    setEditingId(null);
+    reload();
+  };
+
+  const handleDelete = async (lesson: SavedLesson) => {
+    if (!confirm(`Xoá bài "${lesson.title}" khỏi thư viện?`)) return;
+    await deleteLesson(lesson.id);
+    reload();
+  };
+
+  const handleExport = async (lesson: SavedLesson) => {
+    try {
+      const url = URL.createObjectURL(await exportLessonPackage(lesson));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = packageFileName(lesson);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setNotice({ text: `Không xuất được bài: ${e?.message || 'Lỗi không xác định'}`, isError: true });
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const lesson = await importLessonPackage(file, existing =>
+        confirm(`Thư viện đã có bài "${existing.title}" (${existing.level}) cùng chủ đề.\n\nThay bài đó bằng bài trong file?`));
+      if (!lesson) return;
+      setNotice({ text: `✅ Đã thêm bài "${lesson.title}" (${lesson.level}) vào thư viện.`, isError: false });
+      reload();
+    } catch (e: any) {
+      setNotice({ text: e?.message || 'Không mở được gói bài học.', isError: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-start justify-center p-4 bg-slate-900/90 backdrop-blur-xl animate-in fade-in overflow-y-auto pt-10 pb-10" onClick={onClose}>
+      <div className="bg-[#fffcf5] max-w-5xl w-full rounded-[3rem] shadow-2xl relative animate-in zoom-in-95 border-8 border-orange-100 my-auto" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute -top-6 -right-6 z-[600] p-4 bg-red-500 text-white rounded-full shadow-2xl hover:scale-110 transition-all border-4 border-white"><X size={32} /></button>
+        <div className="p-10 md:p-14 space-y-10">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-to-tr from-blue-500 to-indigo-400 rounded-2xl shadow-lg"><Library size={28} className="text-white" /></div>
+            <div>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight">Bài học đã lưu</h2>
+              <p className="text-sm font-bold text-slate-400">Mở lại bài cũ không tốn lượt API, dùng được cả khi mất mạng</p>
+            </div>
+            <label className="ml-auto px-5 py-3 bg-blue-50 text-blue-500 rounded-xl font-black text-sm flex items-center gap-2 cursor-pointer hover:bg-blue-100 transition-all">
+              <input type="file" accept={`${PACKAGE_EXTENSION},application/json`} className="hidden" onChange={e => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+              <Upload size={16} /> Nhập bài
+            </label>
+          </div>
+
+          {notice && (
+            <p className={`px-6 py-4 rounded-2xl font-bold whitespace-pre-line ${notice.isError ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}>{notice.text}</p>
+          )}
+
+          {isLoading && <div className="w-12 h-12 border-4 border-orange-100 border-t-orange-500 rounded-full animate-spin mx-auto" />}
+
+          {!isLoading && lessons.length === 0 && (
+            <p className="text-center text-xl font-black text-slate-400 py-16">Chưa có bài nào được lưu. Tạo bài học đầu tiên nhé! ✨</p>
+          )}
+
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {lessons.map(l => (
+              <div key={l.id} className={`bg-white rounded-[2rem] overflow-hidden shadow-md border-4 ${l.pinned ? 'border-orange-300' : 'border-white'} flex flex-col`}>
+                <div className="h-36 bg-slate-50 relative">
+                  {l.presentation.imageUri && <img src={l.presentation.imageUri} className="w-full h-full object-cover" alt={l.title} />}
+                  <span className="absolute top-3 left-3 px-3 py-1 bg-white/90 rounded-full text-[10px] font-black text-blue-500 uppercase tracking-widest">{l.level}</span>
+                  {l.teacherAudio && <span className="absolute top-3 right-3 p-1.5 bg-white/90 rounded-full text-orange-500" title="Có sẵn giọng đọc mẫu"><FileAudio size={14} /></span>}
+                </div>
+                <div className="p-5 space-y-3 flex-1 flex flex-col">
+                  {editingId === l.id ? (
+                    <input autoFocus value={draftTitle} onChange={e => setDraftTitle(e.target.value)} onBlur={() => saveTitle(l)} onKeyDown={e => e.key === 'Enter' && saveTitle(l)} className="w-full px-3 py-2 border-2 border-orange-200 rounded-xl outline-none font-black text-slate-800" />
+                  ) : (
+                    <p className="font-black text-slate-800 truncate">{l.title}</p>
+                  )}
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{new Date(l.lastUsedAt).toLocaleDateString('vi-VN')}</p>
+                  <div className="flex items-center gap-2 pt-2 mt-auto">
+                    <button onClick={() => onOpen(l)} className="flex-1 py-3 bg-orange-500 text-white rounded-xl font-black text-sm flex items-center justify-center gap-2 shadow-md hover:bg-orange-600 transition-all"><Play size={16} /> Học bài này</button>
+                    <button onClick={() => togglePin(l)} className="p-3 bg-slate-50 rounded-xl text-slate-400 hover:text-orange-500 transition-colors" title={l.pinned ? 'Bỏ ghim' : 'Ghim'}>{l.pinned ? <PinOff size={16} /> : <Pin size={16} />}</button>
+                    <button onClick={() => handleExport(l)} className="p-3 bg-slate-50 rounded-xl text-slate-400 hover:text-green-500 transition-colors" title="Xuất gói bài học"><Download size={16} /></button>
+                    <button onClick={() => { setEditingId(l.id); setDraftTitle(l.title); }} className="p-3 bg-slate-50 rounded-xl text-slate-400 hover:text-blue-500 transition-colors" title="Đổi tên"><Pencil size={16} /></button>
+                    <button onClick={() => handleDelete(l)} className="p-3 bg-slate-50 rounded-xl text-slate-400 hover:text-red-500 transition-colors" title="Xoá"><Trash2 size={16} /></button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonLibrary;
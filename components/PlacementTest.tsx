@@ -0,0 +1,167 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CEFRLevel, LearnerProfile } from '../types';
+import { evaluateDescription, geminiRequestsFor } from '../services/geminiService';
+import { MAX_PLACEMENT_STEPS, PlacementStep, nextPlacementItem, recommendLevel, scorePlacementStep } from '../services/placementService';
+import { budgetWarning } from '../services/usageLedger';
+import { pickRecordingMimeType, blobToBase64 } from '../services/audioUtils';
+import { MicrophoneDeniedError } from '../services/errors';
+import { X, Mic, StopCircle, Compass, ArrowRight, CheckCircle2, XCircle } from 'lucide-react';
+
+interface PlacementTestProps {
+  profile: LearnerProfile;
+  onApply: (level: CEFRLevel) => void;
+  onClose: () => void;
+}
+
+type PlacementPhase = 'intro' | 'waiting' | 'recording' | 'evaluating' | 'done';
+
+const PlacementTest: React.FC<PlacementTestProps> = ({ profile, onApply, onClose }) => {
+  const [phase, setPhase] = useState<PlacementPhase>('intro');
+  const [steps, setSteps] = useState<PlacementStep[]>([]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const unmountedRef = useRef(false);
+
+  const item = nextPlacementItem(steps);
+  const recommendation = recommendLevel(steps);
+
+  useEffect(() => {
+    unmountedRef.current = false; // Strict mode mounts twice
+    return () => {
+      unmountedRef.current = true;
+      const recorder = mediaRecorderRef.current;
+      if (recorder && recorder.state === 'recording') {
+        // Closing mid-answer must not send the half recording for grading
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Every picture is one evaluation request
+  const start = () => {
+    const warning = budgetWarning(MAX_PLACEMENT_STEPS * geminiRequestsFor('evaluation'));
+    if (warning && !confirm(warning)) return;
+    setPhase('waiting');
+  };
+
+  const evaluateAnswer = async (blob: Blob) => {
+    if (!item) return;
+    setPhase('evaluating');
+    try {
+      const base64 = await blobToBase64(blob);
+      // The child answers in their own words - graded against the level, not a model answer
+      const evalRes = await evaluateDescription(item.prompt, base64, blob.type, item.level);
+      if (unmountedRef.current) return;
+      const updated = [...steps, scorePlacementStep(item.level, evalRes)];
+      setSteps(updated);
+      setPhase(nextPlacementItem(updated) ? 'waiting' : 'done');
+    } catch (err: any) {
+      if (unmountedRef.current) return;
+      setErrorMessage(`❌ Lỗi khi chấm bài\n${err?.message || ''}`);
+      setPhase('waiting');
+    }
+  };
+
+  const startRecording = async () => {
+    setErrorMessage(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true } });
+      const mimeType = pickRecordingMimeType();
+      streamRef.current = stream;
+      const mediaRecorder = new MediaRecorder(stream, { mimeType });
+      const chunks: Blob[] = [];
+      mediaRecorder.ondataavailable = (e) => { if (e.data && e.data.size > 0) chunks.push(e.data); };
+      mediaRecorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        const blob = new Blob(chunks, { type: mimeType });
+        if (blob.size < 1000) {
+          setErrorMessage('Cô chưa nghe thấy gì. Bé nói to hơn nhé!');
+          setPhase('waiting');
+          return;
+        }
+        evaluateAnswer(blob);
+      };
+      mediaRecorderRef.current = mediaRecorder;
+      mediaRecorder.start();
+      setPhase('recording');
+    } catch (err) {
+      alert(new MicrophoneDeniedError(err).message);
+    }
+  };
+
+  const stopRecording = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') mediaRecorderRef.current.stop();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-start justify-center p-4 bg-slate-900/90 backdrop-blur-xl animate-in fade-in overflow-y-auto pt-10 pb-10" onClick={onClose}>
+      <div className="bg-[#fffcf5] max-w-3xl w-full rounded-[3rem] shadow-2xl relative animate-in zoom-in-95 border-8 border-orange-100 my-auto" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute -top-6 -right-6 z-[600] p-4 bg-red-500 text-white rounded-full shadow-2xl hover:scale-110 transition-all border-4 border-white"><X size={32} /></button>
+        <div className="p-10 md:p-14 space-y-8">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-to-tr from-teal-500 to-blue-400 rounded-2xl shadow-lg"><Compass size={28} className="text-white" /></div>
+            <div>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight">Kiểm tra trình độ</h2>
+              <p className="text-sm font-bold text-slate-400">{profile.avatar} {profile.name} • Tả vài bức tranh, cô sẽ gợi ý cấp độ phù hợp</p>
+            </div>
+          </div>
+
+          {steps.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {steps.map(s => (
+                <span key={s.level} className={`px-3 py-1.5 rounded-full text-xs font-black flex items-center gap-1.5 ${s.passed ? 'bg-green-50 text-green-600' : 'bg-red-50 text-red-500'}`}>
+                  {s.passed ? <CheckCircle2 size={14} /> : <XCircle size={14} />} {s.level} • {s.score}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {phase === 'intro' && (
+            <div className="text-center space-y-6 py-6">
+              <p className="text-xl font-bold text-slate-600 leading-relaxed">Bé sẽ nhìn từng bức tranh và nói về nó bằng tiếng Anh. Tranh sẽ khó hơn nếu bé làm tốt và dễ hơn nếu bé gặp khó khăn.</p>
+              <button onClick={start} className="px-12 py-5 bg-gradient-to-r from-teal-500 to-blue-500 text-white font-black text-xl rounded-[2rem] shadow-xl hover:scale-105 transition-all inline-flex items-center gap-3">Bắt đầu <ArrowRight size={24} /></button>
+            </div>
+          )}
+
+          {item && (phase === 'waiting' || phase === 'recording' || phase === 'evaluating') && (
+            <div className="space-y-6 text-center">
+              <div className="h-56 bg-white rounded-[2rem] shadow-lg border-4 border-white flex items-center justify-center text-[6rem] tracking-widest">{item.icon}</div>
+              <div>
+                <p className="text-3xl font-black text-slate-800">{item.prompt}</p>
+                <p className="text-sm font-bold text-slate-400 mt-2">{item.hint}</p>
+              </div>
+              {phase === 'waiting' && (
+                <button onClick={startRecording} className="px-12 py-5 bg-red-500 text-white font-black text-xl rounded-[2rem] shadow-xl hover:scale-105 transition-all inline-flex items-center gap-3"><Mic size={24} /> Bấm để nói</button>
+              )}
+              {phase === 'recording' && (
+                <button onClick={stopRecording} className="px-12 py-5 bg-slate-800 text-white font-black text-xl rounded-[2rem] shadow-xl animate-pulse inline-flex items-center gap-3"><StopCircle size={24} /> Nói xong rồi</button>
+              )}
+              {phase === 'evaluating' && (
+                <div className="w-12 h-12 border-4 border-orange-100 border-t-orange-500 rounded-full animate-spin mx-auto" />
+              )}
+            </div>
+          )}
+
+          {phase === 'done' && (
+            <div className="text-center space-y-6 py-6">
+              <p className="text-slate-400 font-black uppercase text-xs tracking-[0.3em]">Cấp độ phù hợp</p>
+              <p className="text-7xl font-black text-blue-600">{recommendation.level}</p>
+              <p className="text-lg font-bold text-slate-500">Độ tin cậy: <span className="text-orange-500 font-black">{Math.round(recommendation.confidence * 100)}%</span></p>
+              {recommendation.confidence < 0.5 && <p className="text-sm font-bold text-slate-400">Kết quả chưa chắc chắn - có thể làm lại bài kiểm tra sau vài buổi học.</p>}
+              <button onClick={() => onApply(recommendation.level)} className="px-12 py-5 bg-gradient-to-r from-orange-500 to-yellow-500 text-white font-black text-xl rounded-[2rem] shadow-xl hover:scale-105 transition-all">Dùng cấp độ này cho {profile.name}</button>
+            </div>
+          )}
+
+          {errorMessage && <p className="text-red-500 font-bold text-center whitespace-pre-line">{errorMessage}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlacementTest;
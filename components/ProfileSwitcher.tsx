@@ -0,0 +1,101 @@
+
+import React, { useState } from 'react';
+import { CEFRLevel, LearnerProfile } from '../types';
+import { CEFR_LEVELS } from '../constants';
+import { PROFILE_AVATARS } from '../services/profileService';
+import { ChevronDown, Pencil, Plus, Trash2, CheckCircle2 } from 'lucide-react';
+
+interface ProfileSwitcherProps {
+  profiles: LearnerProfile[];
+  activeProfile: LearnerProfile;
+  onSelect: (id: string) => void;
+  onAdd: () => LearnerProfile;
+  onUpdate: (profile: LearnerProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfile, onSelect, onAdd, onUpdate, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<LearnerProfile | null>(null);
+
+  const close = () => { setIsOpen(false); setDraft(null); };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    onUpdate({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => isOpen ? close() : setIsOpen(true)} className="flex items-center gap-3 group">
+        <div className="flex flex-col items-end">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">Học sinh</span>
+          <span className="font-black text-slate-800 text-sm max-w-[6rem] truncate">{activeProfile.name}</span>
+        </div>
+        <div className="w-10 h-10 bg-orange-50 rounded-full border-2 border-orange-200 flex items-center justify-center text-xl shadow-sm group-hover:scale-110 transition-all">{activeProfile.avatar}</div>
+        <ChevronDown size={16} className="text-slate-400" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-[60]" onClick={close} />
+          <div className="absolute right-0 mt-3 w-80 bg-white rounded-3xl shadow-2xl border-4 border-orange-100 p-4 z-[70] space-y-2 animate-in fade-in zoom-in-95">
+            {draft ? (
+              <div className="space-y-4 p-2">
+                <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Tên của bé" className="w-full px-4 py-3 border-2 border-slate-200 rounded-xl outline-none focus:border-orange-300 font-black text-slate-800" />
+                <div className="grid grid-cols-6 gap-2">
+                  {PROFILE_AVATARS.map(a => (
+                    <button key={a} onClick={() => setDraft({ ...draft, avatar: a })} className={`text-2xl p-1 rounded-xl transition-all ${draft.avatar === a ? 'bg-orange-100 scale-110' : 'hover:bg-slate-50'}`}>{a}</button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Cấp độ</span>
+                    <select value={draft.defaultLevel} onChange={e => setDraft({ ...draft, defaultLevel: e.target.value as CEFRLevel })} className="w-full bg-orange-50 px-3 py-2 rounded-xl font-black text-blue-500 outline-none text-xs uppercase cursor-pointer">
+                      {CEFR_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Tốc độ nghe</span>
+                    <select value={draft.playbackSpeed} onChange={e => setDraft({ ...draft, playbackSpeed: parseFloat(e.target.value) })} className="w-full bg-orange-50 px-3 py-2 rounded-xl font-bold text-xs outline-none cursor-pointer">
+                      <option value="0.8">Chậm</option>
+                      <option value="1">Vừa</option>
+                      <option value="1.2">Nhanh</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="flex gap-2">
+                  {profiles.length > 1 && (
+                    <button onClick={() => { if (confirm(`Xoá hồ sơ của ${draft.name}? Toàn bộ lịch sử luyện tập của bé cũng sẽ bị xoá.`)) { onDelete(draft.id); close(); } }} className="p-3 bg-red-50 text-red-500 rounded-xl hover:bg-red-100 transition-all"><Trash2 size={18} /></button>
+                  )}
+                  <button onClick={() => setDraft(null)} className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-xl font-black text-sm">Huỷ</button>
+                  <button onClick={saveDraft} className="flex-1 py-3 bg-orange-500 text-white rounded-xl font-black text-sm shadow-md">Lưu</button>
+                </div>
+              </div>
+            ) : (
+              <>
+                {profiles.map(p => (
+                  <div key={p.id} className={`flex items-center gap-3 px-3 py-2 rounded-2xl transition-all ${p.id === activeProfile.id ? 'bg-orange-50' : 'hover:bg-slate-50'}`}>
+                    <button onClick={() => { onSelect(p.id); close(); }} className="flex-1 flex items-center gap-3 text-left">
+                      <span className="text-2xl">{p.avatar}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-black text-slate-800 text-sm truncate">{p.name}</p>
+                        <p className="text-[10px] font-bold text-blue-400 uppercase tracking-widest">{p.defaultLevel}</p>
+                      </div>
+                      {p.id === activeProfile.id && <CheckCircle2 size={18} className="text-orange-500" />}
+                    </button>
+                    <button onClick={() => setDraft(p)} className="p-2 text-slate-300 hover:text-orange-500 transition-colors" title="Sửa"><Pencil size={16} /></button>
+                  </div>
+                ))}
+                <button onClick={() => setDraft(onAdd())} className="w-full flex items-center justify-center gap-2 py-3 border-2 border-dashed border-orange-200 rounded-2xl text-orange-500 font-black text-sm hover:bg-orange-50 transition-all"><Plus size={18} /> Thêm bé</button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,153 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { LearnerProfile, PracticeAttempt, ScoreCriterion } from '../types';
+import { SCORE_CRITERIA } from '../constants';
+import { listAttempts, deleteAttempt } from '../services/historyService';
+import { X, TrendingUp, Play, Pause, Trash2 } from 'lucide-react';
+
+interface ProgressDashboardProps {
+  profile: LearnerProfile;
+  onClose: () => void;
+}
+
+interface TrendChartProps {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 100;
+
+const TrendChart: React.FC<TrendChartProps> = ({ label, color, values }) => {
+  const latest = values.length > 0 ? values[values.length - 1] : 0;
+  const first = values.length > 0 ? values[0] : 0;
+  const delta = Math.round((latest - first) * 10) / 10;
+  // Single point still gets drawn as a flat line so the chart never looks empty
+  const xStep = values.length > 1 ? CHART_WIDTH / (values.length - 1) : 0;
+  const points = values.map((v, i) => `${values.length > 1 ? i * xStep : CHART_WIDTH / 2},${CHART_HEIGHT - (v / 10) * CHART_HEIGHT}`).join(' ');
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] border-2 border-slate-100 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+        <p className="text-sm font-black" style={{ color }}>
+          {latest}/10 {values.length > 1 && <span className={delta >= 0 ? 'text-green-500' : 'text-red-400'}>({delta >= 0 ? '+' : ''}{delta})</span>}
+        </p>
+      </div>
+      <svg viewBox={`-6 -6 ${CHART_WIDTH + 12} ${CHART_HEIGHT + 12}`} className="w-full h-28">
+        {[0, 5, 10].map(g => (
+          <line key={g} x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT - (g / 10) * CHART_HEIGHT} y2={CHART_HEIGHT - (g / 10) * CHART_HEIGHT} stroke="#f1f5f9" strokeWidth={2} />
+        ))}
+        {values.length > 1 && <polyline points={points} fill="none" stroke={color} strokeWidth={4} strokeLinejoin="round" strokeLinecap="round" />}
+        {points.split(' ').filter(Boolean).map((p, i) => {
+          const [cx, cy] = p.split(',');
+          return <circle key={i} cx={cx} cy={cy} r={5} fill="white" stroke={color} strokeWidth={3} />;
+        })}
+      </svg>
+    </div>
+  );
+};
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ profile, onClose }) => {
+  const [attempts, setAttempts] = useState<PracticeAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioUrlRef = useRef<string | null>(null);
+
+  // Pausing never fires onended, so the recording's URL is released here
+  const stopAudio = () => {
+    if (audioRef.current) audioRef.current.pause();
+    audioRef.current = null;
+    if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+    audioUrlRef.current = null;
+  };
+
+  useEffect(() => {
+    // Never show the previous learner's attempts, even if their load finishes last
+    let current = true;
+    setAttempts([]);
+    setIsLoading(true);
+    listAttempts(profile.id)
+      .then(loaded => { if (current) setAttempts(loaded); })
+      .catch(e => console.error('[History] Load failed', e))
+      .finally(() => { if (current) setIsLoading(false); });
+    return () => {
+      current = false;
+      stopAudio();
+    };
+  }, [profile.id]);
+
+  const seriesFor = (key: ScoreCriterion) => attempts.map(a => a.result[key]);
+
+  const togglePlay = (attempt: PracticeAttempt) => {
+    stopAudio();
+    if (playingId === attempt.id) {
+      setPlayingId(null);
+      return;
+    }
+    const url = URL.createObjectURL(attempt.recording);
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    audioUrlRef.current = url;
+    audio.onended = () => { setPlayingId(null); stopAudio(); };
+    audio.play().then(() => setPlayingId(attempt.id)).catch(e => console.error('Play failed:', e));
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Xoá bài luyện này?')) return;
+    await deleteAttempt(id);
+    setAttempts(prev => prev.filter(a => a.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-start justify-center p-4 bg-slate-900/90 backdrop-blur-xl animate-in fade-in overflow-y-auto pt-10 pb-10" onClick={onClose}>
+      <div className="bg-[#fffcf5] max-w-5xl w-full rounded-[3rem] shadow-2xl relative animate-in zoom-in-95 border-8 border-orange-100 my-auto" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute -top-6 -right-6 z-[600] p-4 bg-red-500 text-white rounded-full shadow-2xl hover:scale-110 transition-all border-4 border-white"><X size={32} /></button>
+        <div className="p-10 md:p-14 space-y-10">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-to-tr from-orange-500 to-yellow-400 rounded-2xl shadow-lg"><TrendingUp size={28} className="text-white" /></div>
+            <div>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight">Tiến bộ của {profile.avatar} {profile.name}</h2>
+              <p className="text-sm font-bold text-slate-400">{attempts.length} bài đã luyện</p>
+            </div>
+          </div>
+
+          {isLoading && <div className="w-12 h-12 border-4 border-orange-100 border-t-orange-500 rounded-full animate-spin mx-auto" />}
+
+          {!isLoading && attempts.length === 0 && (
+            <p className="text-center text-xl font-black text-slate-400 py-16">Bé chưa có bài nào. Hãy thu âm bài đầu tiên nhé! 🎤</p>
+          )}
+
+          {attempts.length > 0 && (
+            <>
+              <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {SCORE_CRITERIA.map(c => <TrendChart key={c.key} label={c.label} color={c.color} values={seriesFor(c.key)} />)}
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest">Lịch sử luyện tập</h3>
+                {[...attempts].reverse().map(a => (
+                  <div key={a.id} className="bg-white px-6 py-4 rounded-2xl border-2 border-orange-50 flex items-center gap-4 shadow-sm">
+                    <button onClick={() => togglePlay(a)} className="w-10 h-10 bg-orange-50 text-orange-500 rounded-xl flex items-center justify-center hover:bg-orange-100 transition-all shrink-0">
+                      {playingId === a.id ? <Pause size={18} /> : <Play size={18} />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-black text-slate-800 truncate">{a.theme}</p>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{new Date(a.createdAt).toLocaleString('vi-VN')} • {a.level}</p>
+                    </div>
+                    <p className="text-2xl font-black text-orange-500 italic">{a.result.score}<span className="text-xs not-italic">/10</span></p>
+                    <button onClick={() => handleDelete(a.id)} className="text-slate-200 hover:text-red-500 transition-colors" title="Xoá"><Trash2 size={18} /></button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
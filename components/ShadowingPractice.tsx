@@ -0,0 +1,242 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PresentationData, EvaluationResult, CEFRLevel, VoiceSettings } from '../types';
+import { generateTeacherVoice, evaluatePresentation } from '../services/geminiService';
+import { splitIntoSentences, combineResults } from '../services/shadowingService';
+import { pickRecordingMimeType, blobToBase64, concatRecordings } from '../services/audioUtils';
+import { precheckRecording } from '../services/recordingCheck';
+import { createTeacherPlayer, TeacherPlayer } from '../services/teacherPlayer';
+import { countWords } from '../services/scriptAlignment';
+import { MicrophoneDeniedError } from '../services/errors';
+import { Mic, StopCircle, Volume2, RotateCcw, ArrowRight, X, Trophy } from 'lucide-react';
+
+interface ShadowingPracticeProps {
+  presentation: PresentationData;
+  level: CEFRLevel;
+  playbackSpeed: number;
+  voice: VoiceSettings;
+  onFinish: (result: EvaluationResult, recording: Blob) => void;
+  onExit: () => void;
+}
+
+type ShadowPhase = 'listening' | 'waiting' | 'recording' | 'evaluating' | 'scored';
+
+const ShadowingPractice: React.FC<ShadowingPracticeProps> = ({ presentation, level, playbackSpeed, voice, onFinish, onExit }) => {
+  const sentences = useMemo(() => splitIntoSentences(presentation), [presentation]);
+  const [index, setIndex] = useState(0);
+  const [phase, setPhase] = useState<ShadowPhase>('listening');
+  const [results, setResults] = useState<(EvaluationResult | null)[]>(() => sentences.map(() => null));
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isFinishing, setIsFinishing] = useState(false);
+
+  const recordingsRef = useRef<(Blob | null)[]>(sentences.map(() => null));
+  const playerRef = useRef<TeacherPlayer | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const unmountedRef = useRef(false);
+
+  const sentence = sentences[index];
+  const current = results[index];
+
+  const stopTeacher = () => {
+    playerRef.current?.stop();
+  };
+
+  const playTeacher = async () => {
+    stopTeacher();
+    setErrorMessage(null);
+    setPhase(p => (p === 'scored' ? p : 'listening'));
+    try {
+      const buffer = await generateTeacherVoice(sentence, voice, level);
+      if (unmountedRef.current) return;
+      if (!playerRef.current) {
+        playerRef.current = createTeacherPlayer(status => {
+          if (status === 'idle') setPhase(p => (p === 'listening' ? 'waiting' : p));
+        }, playbackSpeed);
+      }
+      playerRef.current.play(buffer);
+    } catch (err: any) {
+      console.error(err);
+      setErrorMessage(err?.message || 'Không phát được giọng cô. Bé vẫn có thể tự đọc nhé!');
+      setPhase(p => (p === 'listening' ? 'waiting' : p));
+    }
+  };
+
+  useEffect(() => {
+    playerRef.current?.setSpeed(playbackSpeed);
+  }, [playbackSpeed]);
+
+  // Teacher reads each new sentence first
+  useEffect(() => {
+    playTeacher();
+    return stopTeacher;
+  }, [index]);
+
+  useEffect(() => {
+    unmountedRef.current = false; // Strict mode mounts twice
+    return () => {
+      unmountedRef.current = true;
+      playerRef.current?.dispose();
+      playerRef.current = null;
+      const recorder = mediaRecorderRef.current;
+      if (recorder && recorder.state === 'recording') {
+        // Leaving mid-sentence must not send the half recording for grading
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const evaluateSentence = async (blob: Blob) => {
+    setPhase('evaluating');
+    const problem = await precheckRecording(blob, countWords(sentence));
+    if (unmountedRef.current) return;
+    if (problem) {
+      setErrorMessage(problem);
+      setPhase('waiting');
+      return;
+    }
+    try {
+      const base64 = await blobToBase64(blob);
+      const evalRes = await evaluatePresentation(sentence, base64, blob.type, level);
+      if (unmountedRef.current) return;
+      recordingsRef.current[index] = blob;
+      setResults(prev => prev.map((r, i) => (i === index ? evalRes : r)));
+      setPhase('scored');
+    } catch (err: any) {
+      if (unmountedRef.current) return;
+      setErrorMessage(`❌ Lỗi khi chấm câu này\n${err?.message || ''}`);
+      setPhase('waiting');
+    }
+  };
+
+  const startRecording = async () => {
+    stopTeacher();
+    setErrorMessage(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true } });
+      const mimeType = pickRecordingMimeType();
+      streamRef.current = stream;
+      const mediaRecorder = new MediaRecorder(stream, { mimeType });
+      const chunks: Blob[] = [];
+      mediaRecorder.ondataavailable = (e) => { if (e.data && e.data.size > 0) chunks.push(e.data); };
+      mediaRecorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        const blob = new Blob(chunks, { type: mimeType });
+        if (blob.size < 1000) {
+          setErrorMessage('Cô chưa nghe thấy gì. Bé nói to hơn nhé!');
+          setPhase('waiting');
+          return;
+        }
+        evaluateSentence(blob);
+      };
+      mediaRecorderRef.current = mediaRecorder;
+      mediaRecorder.start();
+      setPhase('recording');
+    } catch (err) {
+      alert(new MicrophoneDeniedError(err).message);
+    }
+  };
+
+  const stopRecording = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') mediaRecorderRef.current.stop();
+  };
+
+  const goNext = () => {
+    if (index < sentences.length - 1) {
+      setIndex(index + 1);
+      setPhase('listening');
+    }
+  };
+
+  const finish = async () => {
+    setIsFinishing(true);
+    try {
+      const done = results.map((r, i) => ({ r, s: sentences[i], b: recordingsRef.current[i] })).filter(x => x.r && x.b);
+      const combined = combineResults(done.map(x => x.s), done.map(x => x.r!));
+      const recording = await concatRecordings(done.map(x => x.b!));
+      onFinish(combined, recording);
+    } catch (err: any) {
+      console.error('[Shadowing] Finish failed', err);
+      setErrorMessage('Không ghép được bản ghi âm. Bé thử lại nhé!');
+      setIsFinishing(false);
+    }
+  };
+
+  const isLast = index === sentences.length - 1;
+  const completedCount = results.filter(Boolean).length;
+
+  return (
+    <div className="animate-in fade-in duration-700 space-y-10 pb-20">
+      <div className="bg-white rounded-[3rem] shadow-2xl border-8 border-orange-100 overflow-hidden">
+        <div className="bg-orange-50/50 px-10 py-6 border-b-4 border-dashed border-orange-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-slate-800">Luyện từng câu 🦜</h2>
+            <p className="text-blue-500 font-bold mt-1 uppercase tracking-widest text-xs">Câu {index + 1}/{sentences.length} • Đã chấm {completedCount} câu</p>
+          </div>
+          <button onClick={onExit} className="p-3 bg-white rounded-2xl text-slate-400 hover:text-red-500 shadow-md transition-all" title="Thoát"><X size={20} /></button>
+        </div>
+
+        <div className="flex gap-1 px-10 pt-6">
+          {sentences.map((_, i) => (
+            <div key={i} className={`h-2 flex-1 rounded-full ${results[i] ? 'bg-green-400' : i === index ? 'bg-orange-400' : 'bg-slate-100'}`} />
+          ))}
+        </div>
+
+        <div className="p-10 md:p-16 text-center space-y-10">
+          <p className="text-3xl md:text-4xl font-black text-slate-800 leading-relaxed">{sentence}</p>
+
+          {errorMessage && <p className="text-red-500 font-bold whitespace-pre-line">{errorMessage}</p>}
+
+          {phase === 'listening' && (
+            <div className="flex items-center justify-center gap-3 text-orange-500 font-black text-xl"><Volume2 size={28} className="animate-pulse" /> Bé nghe cô đọc nhé...</div>
+          )}
+
+          {phase === 'evaluating' && (
+            <div className="flex flex-col items-center gap-4">
+              <div className="w-16 h-16 border-8 border-blue-50 border-t-blue-500 rounded-full animate-spin" />
+              <p className="font-black text-slate-500">Cô đang chấm câu này...</p>
+            </div>
+          )}
+
+          {phase === 'scored' && current && (
+            <div className="max-w-xl mx-auto bg-blue-50/50 p-8 rounded-[2.5rem] border-2 border-blue-50 space-y-3">
+              <p className="text-6xl font-black text-orange-500 italic">{current.score}<span className="text-xl not-italic">/10</span></p>
+              <p className="text-lg font-bold text-slate-600 italic">"{current.teacherPraise || current.feedback}"</p>
+              {current.mistakes.length > 0 && (
+                <p className="text-sm font-bold text-slate-500">Chú ý: {current.mistakes.map(m => m.word).join(', ')}</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-center gap-4">
+            {phase !== 'recording' && phase !== 'evaluating' && (
+              <button onClick={playTeacher} className="px-8 py-5 bg-white border-4 border-orange-100 text-orange-500 rounded-[2rem] font-black text-lg shadow-md hover:scale-105 transition-all flex items-center gap-3"><Volume2 size={24} /> Nghe mẫu</button>
+            )}
+            {(phase === 'waiting' || phase === 'listening') && (
+              <button onClick={startRecording} className="px-10 py-5 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-[2rem] font-black text-xl shadow-xl hover:scale-105 transition-all flex items-center gap-3"><Mic size={28} /> Bé nói theo</button>
+            )}
+            {phase === 'recording' && (
+              <button onClick={stopRecording} className="px-10 py-5 bg-red-600 text-white rounded-[2rem] font-black text-xl shadow-xl hover:bg-red-700 transition-all flex items-center gap-3"><StopCircle size={28} className="animate-pulse" /> XONG!</button>
+            )}
+            {phase === 'scored' && (
+              <>
+                <button onClick={startRecording} className="px-8 py-5 bg-pink-50 text-pink-500 rounded-[2rem] font-black text-lg hover:bg-pink-100 transition-all flex items-center gap-3"><RotateCcw size={24} /> Nói lại</button>
+                {!isLast && (
+                  <button onClick={goNext} className="px-10 py-5 bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-[2rem] font-black text-xl shadow-xl hover:scale-105 transition-all flex items-center gap-3">Câu tiếp <ArrowRight size={28} /></button>
+                )}
+              </>
+            )}
+            {(isLast || completedCount === sentences.length) && completedCount > 0 && phase !== 'recording' && phase !== 'evaluating' && (
+              <button onClick={finish} disabled={isFinishing} className="px-10 py-5 bg-gradient-to-r from-orange-500 to-yellow-500 text-white disabled:opacity-60 rounded-[2rem] font-black text-xl shadow-xl hover:scale-105 transition-all flex items-center gap-3"><Trophy size={28} /> Xem kết quả</button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShadowingPractice;
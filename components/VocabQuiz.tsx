@@ -0,0 +1,200 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { LearnerProfile, VocabCard, QuizDirection } from '../types';
+import { listCards, listDueCards, recordReview, QUIZ_DIRECTIONS } from '../services/vocabDeckService';
+import { generateTeacherVoice, geminiRequestsFor } from '../services/geminiService';
+import { budgetWarning } from '../services/usageLedger';
+import { createTeacherPlayer, TeacherPlayer } from '../services/teacherPlayer';
+import { X, Layers, Volume2, CheckCircle2, Frown, ArrowRight } from 'lucide-react';
+
+interface VocabQuizProps {
+  profile: LearnerProfile;
+  onClose: () => void;
+}
+
+interface QuizQuestion {
+  card: VocabCard;
+  direction: QuizDirection;
+  options: VocabCard[];
+}
+
+const SESSION_SIZE = 10;
+const QUICK_ANSWER_MS = 5000;
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const buildQuestions = (due: VocabCard[], deck: VocabCard[]): QuizQuestion[] => {
+  const offset = Math.floor(Math.random() * QUIZ_DIRECTIONS.length);
+  return due.slice(0, SESSION_SIZE).map((card, i) => {
+    const distractors = shuffle(deck.filter(c => c.id !== card.id)).slice(0, 3);
+    return { card, direction: QUIZ_DIRECTIONS[(i + offset) % QUIZ_DIRECTIONS.length], options: shuffle([card, ...distractors]) };
+  });
+};
+
+const VocabQuiz: React.FC<VocabQuizProps> = ({ profile, onClose }) => {
+  const [deckSize, setDeckSize] = useState(0);
+  const [nextDueAt, setNextDueAt] = useState<number | null>(null);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [index, setIndex] = useState(0);
+  const [picked, setPicked] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAudioLoading, setIsAudioLoading] = useState(false);
+
+  const shownAtRef = useRef(Date.now());
+  const playerRef = useRef<TeacherPlayer | null>(null);
+  const audioAllowedRef = useRef<boolean | null>(null); // Budget answer for this session, asked on the first word
+
+  useEffect(() => {
+    Promise.all([listCards(profile.id), listDueCards(profile.id)])
+      .then(([deck, due]) => {
+        setDeckSize(deck.length);
+        const dueIds = new Set(due.map(c => c.id));
+        const upcoming = deck.filter(c => !dueIds.has(c.id)).map(c => c.dueAt).sort((a, b) => a - b);
+        setNextDueAt(upcoming[0] ?? null);
+        setQuestions(buildQuestions(due, deck));
+      })
+      .catch(e => console.error('[Vocab] Load failed', e))
+      .finally(() => setIsLoading(false));
+  }, [profile.id]);
+
+  // The player only opens its audio context on the first word
+  useEffect(() => {
+    playerRef.current = createTeacherPlayer(() => {}, profile.playbackSpeed);
+    return () => {
+      playerRef.current?.dispose();
+      playerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    playerRef.current?.setSpeed(profile.playbackSpeed);
+  }, [profile.playbackSpeed]);
+
+  const question = questions[index];
+  const isDone = !isLoading && index >= questions.length;
+
+  const playWord = async (word: string) => {
+    if (isAudioLoading) return;
+    if (audioAllowedRef.current === null) {
+      // Hearing every remaining word costs one voice request each
+      const warning = budgetWarning((questions.length - index) * geminiRequestsFor('speech'));
+      audioAllowedRef.current = !warning || confirm(warning);
+    }
+    if (!audioAllowedRef.current) return;
+    try {
+      setIsAudioLoading(true);
+      const buffer = await generateTeacherVoice(word, profile.voice, profile.defaultLevel);
+      // Same pitch at any speed, and a new word cuts off the previous one
+      playerRef.current?.play(buffer);
+    } catch (err) { console.error(err); } finally { setIsAudioLoading(false); }
+  };
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+    if (question?.direction === 'audio-to-word') playWord(question.card.item.word);
+  }, [index, questions]);
+
+  const answer = (option: VocabCard) => {
+    if (picked || !question) return;
+    setPicked(option.id);
+    const isCorrect = option.id === question.card.id;
+    // Fast correct answers are "perfect", slow ones "hesitant"; wrong answers reset the card
+    const quality = isCorrect ? (Date.now() - shownAtRef.current < QUICK_ANSWER_MS ? 5 : 4) : 1;
+    if (isCorrect) setCorrectCount(c => c + 1);
+    recordReview(question.card, quality, question.direction).catch(e => console.warn('Saving review failed', e));
+  };
+
+  const next = () => { setPicked(null); setIndex(i => i + 1); };
+
+  const optionLabel = (card: VocabCard) => question.direction === 'word-to-translation' ? card.item.translation : card.item.word;
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-start justify-center p-4 bg-slate-900/90 backdrop-blur-xl animate-in fade-in overflow-y-auto pt-10 pb-10" onClick={onClose}>
+      <div className="bg-[#fffcf5] max-w-2xl w-full rounded-[3rem] shadow-2xl relative animate-in zoom-in-95 border-8 border-orange-100 my-auto" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute -top-6 -right-6 z-[600] p-4 bg-red-500 text-white rounded-full shadow-2xl hover:scale-110 transition-all border-4 border-white"><X size={32} /></button>
+        <div className="p-10 md:p-14 space-y-8">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-to-tr from-green-500 to-teal-400 rounded-2xl shadow-lg"><Layers size={28} className="text-white" /></div>
+            <div>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight">Ôn từ vựng</h2>
+              <p className="text-sm font-bold text-slate-400">{profile.avatar} {profile.name} • {deckSize} từ trong bộ thẻ</p>
+            </div>
+          </div>
+
+          {isLoading && <div className="w-12 h-12 border-4 border-orange-100 border-t-orange-500 rounded-full animate-spin mx-auto" />}
+
+          {question && (
+            <div className="space-y-8 text-center">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Thẻ {index + 1}/{questions.length}</p>
+              <div className="bg-white rounded-[2.5rem] border-4 border-orange-50 shadow-inner p-10 min-h-[180px] flex flex-col items-center justify-center gap-3">
+                {question.direction === 'emoji-to-word' && <span className="text-8xl">{question.card.item.icon}</span>}
+                {question.direction === 'word-to-translation' && (
+                  <>
+                    <p className="text-5xl font-black text-slate-800">{question.card.item.word}</p>
+                    <p className="text-lg font-bold text-slate-300 italic">/{question.card.item.ipa}/</p>
+                  </>
+                )}
+                {question.direction === 'audio-to-word' && (
+                  <button onClick={() => playWord(question.card.item.word)} className="w-24 h-24 bg-orange-500 text-white rounded-[2rem] flex items-center justify-center shadow-lg hover:scale-110 transition-all">
+                    {isAudioLoading ? <div className="w-8 h-8 border-4 border-white border-t-transparent animate-spin rounded-full" /> : <Volume2 size={48} />}
+                  </button>
+                )}
+                <p className="text-sm font-bold text-slate-400">
+                  {question.direction === 'word-to-translation' ? 'Từ này nghĩa là gì?' : question.direction === 'audio-to-word' ? 'Bé nghe cô đọc từ nào?' : 'Hình này là từ gì?'}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {question.options.map(o => {
+                  const isAnswer = o.id === question.card.id;
+                  const style = !picked ? 'bg-white border-orange-100 hover:border-orange-300'
+                    : isAnswer ? 'bg-green-50 border-green-400 text-green-700'
+                      : o.id === picked ? 'bg-red-50 border-red-300 text-red-500' : 'bg-white border-slate-100 opacity-50';
+                  return (
+                    <button key={o.id} onClick={() => answer(o)} className={`p-5 rounded-2xl border-4 font-black text-lg transition-all ${style}`}>{optionLabel(o)}</button>
+                  );
+                })}
+              </div>
+
+              {picked && (
+                <div className="flex items-center justify-between bg-white p-5 rounded-2xl border-2 border-slate-100">
+                  <p className="font-black text-slate-700 flex items-center gap-2">
+                    {picked === question.card.id ? <CheckCircle2 className="text-green-500" /> : <Frown className="text-red-400" />}
+                    {question.card.item.icon} {question.card.item.word} = {question.card.item.translation}
+                  </p>
+                  <button onClick={next} className="px-6 py-3 bg-orange-500 text-white rounded-xl font-black flex items-center gap-2">Tiếp <ArrowRight size={18} /></button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {isDone && (
+            <div className="text-center space-y-4 py-10">
+              {questions.length > 0 ? (
+                <>
+                  <p className="text-6xl font-black text-orange-500 italic">{correctCount}/{questions.length}</p>
+                  <p className="text-xl font-black text-slate-600">Bé ôn xong rồi! Giỏi quá 🎉</p>
+                </>
+              ) : (
+                <p className="text-xl font-black text-slate-400">
+                  {deckSize === 0 ? 'Bộ thẻ còn trống. Học một bài để có từ mới nhé! 📚' : 'Hôm nay bé đã ôn hết thẻ rồi! 🌟'}
+                </p>
+              )}
+              {nextDueAt && <p className="text-sm font-bold text-slate-400">Lần ôn tiếp theo: {new Date(nextDueAt).toLocaleString('vi-VN')}</p>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabQuiz;
@@ -0,0 +1,213 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { decodeRecording } from '../services/audioUtils';
+import { PitchPoint, PITCH_MIN_HZ, PITCH_MAX_HZ, computeWaveformPeaks, computePitchContour } from '../services/pitchAnalysis';
+import { Play, Pause, Repeat, X } from 'lucide-react';
+
+interface WaveformCompareProps {
+  recording: Blob;
+  teacherBuffer: AudioBuffer | null;
+}
+
+type TrackId = 'teacher' | 'child';
+
+interface Region {
+  start: number;
+  end: number;
+}
+
+interface TrackData {
+  buffer: AudioBuffer;
+  peaks: number[];
+  pitch: PitchPoint[];
+}
+
+const BINS = 300;
+const WIDTH = 1000;
+const HEIGHT = 120;
+
+// Log scale so a rise from 200 to 300 Hz looks like a rise from 300 to 450 Hz - as we hear it
+const pitchToY = (hz: number) => {
+  const t = (Math.log(hz) - Math.log(PITCH_MIN_HZ)) / (Math.log(PITCH_MAX_HZ) - Math.log(PITCH_MIN_HZ));
+  return HEIGHT - t * HEIGHT;
+};
+
+const pitchPath = (pitch: PitchPoint[], duration: number) => {
+  let path = '';
+  let penDown = false;
+  for (const p of pitch) {
+    if (p.hz === null) { penDown = false; continue; }
+    const x = (p.time / duration) * WIDTH;
+    path += `${penDown ? 'L' : 'M'}${x.toFixed(1)},${pitchToY(p.hz).toFixed(1)} `;
+    penDown = true;
+  }
+  return path;
+};
+
+const analyse = async (buffer: AudioBuffer): Promise<TrackData> => ({
+  buffer,
+  peaks: computeWaveformPeaks(buffer, BINS),
+  pitch: await computePitchContour(buffer),
+});
+
+const TRACKS: { id: TrackId; label: string; wave: string; line: string }[] = [
+  { id: 'teacher', label: 'Cô đọc mẫu', wave: '#fed7aa', line: '#f97316' },
+  { id: 'child', label: 'Bé nói', wave: '#bfdbfe', line: '#2563eb' },
+];
+
+const WaveformCompare: React.FC<WaveformCompareProps> = ({ recording, teacherBuffer }) => {
+  const [tracks, setTracks] = useState<Partial<Record<TrackId, TrackData>>>({});
+  const [regions, setRegions] = useState<Partial<Record<TrackId, Region>>>({});
+  const [playhead, setPlayhead] = useState<{ track: TrackId; time: number } | null>(null);
+  const [playing, setPlaying] = useState<TrackId | null>(null);
+  const [looping, setLooping] = useState(false);
+  const [dragging, setDragging] = useState<{ track: TrackId; from: number } | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeRecording(recording).then(analyse)
+      .then(child => { if (!cancelled) setTracks(t => ({ ...t, child })); })
+      .catch(e => console.warn('[Waveform] Recording analysis failed', e));
+    return () => { cancelled = true; };
+  }, [recording]);
+
+  useEffect(() => {
+    if (!teacherBuffer) return;
+    let cancelled = false;
+    analyse(teacherBuffer)
+      .then(teacher => { if (!cancelled) setTracks(t => ({ ...t, teacher })); })
+      .catch(e => console.warn('[Waveform] Teacher analysis failed', e));
+    return () => { cancelled = true; };
+  }, [teacherBuffer]);
+
+  const stop = () => {
+    if (sourceRef.current) { sourceRef.current.onended = null; sourceRef.current.stop(); sourceRef.current = null; }
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    setPlaying(null);
+  };
+
+  useEffect(() => () => {
+    stop();
+    audioContextRef.current?.close().catch(() => undefined);
+  }, []);
+
+  const play = (track: TrackId, from: number) => {
+    const data = tracks[track];
+    if (!data) return;
+    stop();
+    if (!audioContextRef.current) audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const ctx = audioContextRef.current;
+    const region = regions[track];
+    const loop = looping && region ? region : null;
+
+    const source = ctx.createBufferSource();
+    source.buffer = data.buffer;
+    source.connect(ctx.destination);
+    if (loop) {
+      source.loop = true;
+      source.loopStart = loop.start;
+      source.loopEnd = loop.end;
+    }
+    const offset = loop ? loop.start : from;
+    source.onended = () => { if (frameRef.current) cancelAnimationFrame(frameRef.current); setPlaying(null); };
+    source.start(0, offset);
+    sourceRef.current = source;
+    setPlaying(track);
+
+    const startedAt = ctx.currentTime;
+    const tick = () => {
+      const elapsed = ctx.currentTime - startedAt;
+      const time = loop ? loop.start + (elapsed % (loop.end - loop.start)) : Math.min(data.buffer.duration, offset + elapsed);
+      setPlayhead({ track, time });
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const timeAt = (track: TrackId, e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    return ratio * (tracks[track]?.buffer.duration || 0);
+  };
+
+  const handlePointerDown = (track: TrackId, e: React.PointerEvent<SVGSVGElement>) => {
+    // Keep receiving the pointer when a finger slides off the waveform
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging({ track, from: timeAt(track, e) });
+  };
+
+  const handlePointerUp = (track: TrackId, e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging || dragging.track !== track) return;
+    const to = timeAt(track, e);
+    setDragging(null);
+    if (Math.abs(to - dragging.from) < 0.15) {
+      // A click, not a drag - seek there
+      setRegions(r => ({ ...r, [track]: undefined }));
+      setLooping(false);
+      play(track, to);
+    } else {
+      setRegions(r => ({ ...r, [track]: { start: Math.min(dragging.from, to), end: Math.max(dragging.from, to) } }));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[3rem] shadow-2xl border-8 border-blue-50 p-8 space-y-6">
+      <div>
+        <h3 className="text-2xl font-black text-slate-800">So sánh giọng bé với cô 🎵</h3>
+        <p className="text-sm font-bold text-slate-400">Đường cong là độ cao giọng (ngữ điệu). Bấm để nghe từ chỗ đó, kéo để chọn một đoạn rồi nghe lặp lại.</p>
+      </div>
+
+      {TRACKS.map(t => {
+        const data = tracks[t.id];
+        const region = regions[t.id];
+        const duration = data?.buffer.duration || 1;
+        const head = playhead?.track === t.id ? playhead.time : null;
+        return (
+          <div key={t.id} className="space-y-2">
+            <div className="flex items-center gap-3">
+              <p className="font-black text-slate-700 w-28">{t.label}</p>
+              <button disabled={!data} onClick={() => (playing === t.id ? stop() : play(t.id, head ?? 0))} className="p-2 bg-slate-50 rounded-xl text-slate-500 disabled:opacity-40 hover:text-blue-500 transition-colors">
+                {playing === t.id ? <Pause size={18} /> : <Play size={18} />}
+              </button>
+              {region && (
+                <>
+                  <button onClick={() => { setLooping(!looping); if (playing) stop(); }} className={`px-3 py-2 rounded-xl text-xs font-black flex items-center gap-1.5 transition-all ${looping ? 'bg-blue-500 text-white' : 'bg-blue-50 text-blue-500'}`}>
+                    <Repeat size={14} /> Lặp {region.start.toFixed(1)}-{region.end.toFixed(1)}s
+                  </button>
+                  <button onClick={() => setRegions(r => ({ ...r, [t.id]: undefined }))} className="p-2 text-slate-300 hover:text-red-500 transition-colors" title="Bỏ chọn"><X size={16} /></button>
+                </>
+              )}
+            </div>
+            {data ? (
+              <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none"
+                className="w-full h-28 bg-slate-50 rounded-2xl cursor-crosshair select-none touch-none"
+                onPointerDown={e => handlePointerDown(t.id, e)}
+                onPointerUp={e => handlePointerUp(t.id, e)}
+                onPointerCancel={() => setDragging(null)}
+              >
+                {region && <rect x={(region.start / duration) * WIDTH} width={((region.end - region.start) / duration) * WIDTH} y={0} height={HEIGHT} fill="#dbeafe" />}
+                {data.peaks.map((p, i) => {
+                  const h = Math.max(1, p * HEIGHT);
+                  return <rect key={i} x={(i / BINS) * WIDTH} width={WIDTH / BINS * 0.7} y={(HEIGHT - h) / 2} height={h} fill={t.wave} />;
+                })}
+                <path d={pitchPath(data.pitch, duration)} fill="none" stroke={t.line} strokeWidth={3} strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+                {head !== null && <line x1={(head / duration) * WIDTH} x2={(head / duration) * WIDTH} y1={0} y2={HEIGHT} stroke="#ef4444" strokeWidth={2} vectorEffect="non-scaling-stroke" />}
+              </svg>
+            ) : (
+              <div className="h-28 bg-slate-50 rounded-2xl flex items-center justify-center text-sm font-bold text-slate-300">
+                {t.id === 'teacher' && !teacherBuffer ? 'Đang chuẩn bị giọng cô...' : 'Đang phân tích...'}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WaveformCompare;
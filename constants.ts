@@ -1,7 +1,7 @@
 
-import { Theme, CEFRLevel } from './types';
+import { Theme, CEFRLevel, ScoreCriterion, VoiceAccent, VoicePace, VoiceSettings } from './types';
 
-export const CEFR_LEVELS: CEFRLevel[] = ['Starters', 'Movers', 'Flyers', 'A1', 'A2', 'B1', 'B2'];
+export const CEFR_LEVELS: CEFRLevel[] = ['Starters', 'Movers', 'Flyers', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
 
 export const PREDEFINED_THEMES: Theme[] = [
   { id: '1', label: 'My Family', icon: '👨‍👩‍👧‍👦', description: 'Introduce your family members.' },
@@ -23,3 +23,35 @@ export const PREDEFINED_THEMES: Theme[] = [
   { id: '17', label: 'Playground', icon: '🛝', description: 'Slides and swings.' },
   { id: '18', label: 'Robot World', icon: '🤖', description: 'High-tech friendly robots.' },
 ];
+
+export const SCORE_CRITERIA: { key: ScoreCriterion; label: string; color: string }[] = [
+  { key: 'pronunciation', label: 'Phát âm', color: '#3b82f6' },
+  { key: 'fluency', label: 'Trôi chảy', color: '#ec4899' },
+  { key: 'intonation', label: 'Ngữ điệu', color: '#f97316' },
+  { key: 'vocabulary', label: 'Từ vựng', color: '#22c55e' },
+  { key: 'grammar', label: 'Ngữ pháp', color: '#8b5cf6' },
+  { key: 'taskFulfillment', label: 'Hoàn thành bài', color: '#14b8a6' },
+];
+
+export const TEACHER_VOICES: { id: string; label: string }[] = [
+  { id: 'Kore', label: 'Cô Kore (nữ, ấm áp)' },
+  { id: 'Aoede', label: 'Cô Aoede (nữ, nhẹ nhàng)' },
+  { id: 'Leda', label: 'Cô Leda (nữ, trẻ trung)' },
+  { id: 'Puck', label: 'Thầy Puck (nam, vui tươi)' },
+  { id: 'Charon', label: 'Thầy Charon (nam, trầm)' },
+  { id: 'Fenrir', label: 'Thầy Fenrir (nam, mạnh mẽ)' },
+];
+
+export const VOICE_ACCENTS: { id: VoiceAccent; label: string }[] = [
+  { id: 'american', label: 'Giọng Mỹ 🇺🇸' },
+  { id: 'british', label: 'Giọng Anh 🇬🇧' },
+];
+
+export const VOICE_PACES: { id: VoicePace; label: string }[] = [
+  { id: 'level', label: 'Theo cấp độ' },
+  { id: 'slow', label: 'Chậm, rõ ràng' },
+  { id: 'normal', label: 'Vừa phải' },
+  { id: 'natural', label: 'Tự nhiên như người bản xứ' },
+];
+
+export const DEFAULT_VOICE: VoiceSettings = { voiceName: 'Kore', accent: 'american', pace: 'level' };
@@ -0,0 +1,196 @@
+import type { AIProviderId, CallObserver } from "./providers/aiProvider";
+import { UsageOperation, recentRequestTimes, recordUsage } from "./usageLedger";
+import { getKeyHealth, isKeyUsable, keyId, loadApiKeys, markKeyInvalid, markKeyOk, markKeyRateLimited } from "./keyPool";
+import { AppError, AppErrorCode, InvalidApiKeyError, MissingApiKeyError, ModelNotFoundError, QuotaExceededError, toAppError } from "./errors";
+
+// ========================================
+// API Client - rate limiting and model fallback shared by all providers
+// ========================================
+// Free tier limits: 10 RPM, 250 RPD, 250K TPM
+// Strategy: Use cheapest model first, minimize retries
+
+// ========================================
+// Rate Limiter - Prevent exceeding 10 RPM per key
+// ========================================
+// Send times come from the persisted usage ledger, so a reload does not reset
+// the window and TTS requests count as well. Gemini is limited per key,
+// other providers per provider.
+const MAX_RPM = 8; // Stay under 10 RPM limit with buffer
+const MAX_KEY_WAIT_MS = 2 * 60 * 1000; // Longer than this and the caller is told the quota ran out
+const inFlight: Record<string, number> = {};
+
+const laneFor = (provider: AIProviderId, apiKey?: string) => (apiKey ? `${provider}:${keyId(apiKey)}` : provider);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Requests in the last minute, including ones still in flight (not in the ledger yet)
+ */
+function requestsInWindow(provider: AIProviderId, apiKey?: string): { count: number; oldest?: number } {
+  const recent = recentRequestTimes(provider, 60000, apiKey ? keyId(apiKey) : undefined);
+  return { count: recent.length + (inFlight[laneFor(provider, apiKey)] || 0), oldest: recent[0] };
+}
+
+// When the window frees up: oldest request expires + buffer
+const windowFreesAt = (oldest?: number) => (oldest !== undefined ? oldest + 60000 + 500 : Date.now() + 1000);
+
+async function waitForRateLimit(provider: AIProviderId): Promise<void> {
+  for (;;) {
+    const { count, oldest } = requestsInWindow(provider);
+    if (count < MAX_RPM) break;
+    const waitTime = windowFreesAt(oldest) - Date.now();
+    console.log(`[Rate Limiter] Approaching limit (${count}/${MAX_RPM} RPM), waiting ${waitTime}ms...`);
+    await sleep(waitTime);
+  }
+}
+
+// ========================================
+// Request Queue - hand out Gemini keys one caller at a time, in arrival order
+// ========================================
+let keyQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Least busy usable key with room this minute. Waits while every key is busy
+ * or cooling down; the caller must release the key's in-flight slot.
+ */
+function acquireKey(): Promise<string> {
+  const next = keyQueue.then(async () => {
+    for (;;) {
+      const keys = loadApiKeys();
+      if (keys.length === 0) throw new MissingApiKeyError();
+      if (keys.every(k => getKeyHealth(k).status === 'invalid')) throw new InvalidApiKeyError();
+
+      const ranked = keys.filter(isKeyUsable)
+        .map(key => ({ key, ...requestsInWindow('gemini', key) }))
+        .sort((a, b) => a.count - b.count);
+      const free = ranked.find(r => r.count < MAX_RPM);
+      if (free) {
+        const lane = laneFor('gemini', free.key);
+        inFlight[lane] = (inFlight[lane] || 0) + 1;
+        return free.key;
+      }
+
+      const readyAt = Math.min(
+        ...ranked.map(r => windowFreesAt(r.oldest)),
+        ...keys.map(getKeyHealth).filter(h => h.status === 'cooling').map(h => h.cooldownUntil || 0),
+      );
+      const waitTime = Math.max(500, readyAt - Date.now());
+      if (waitTime > MAX_KEY_WAIT_MS) throw new QuotaExceededError({ retryAfterMs: waitTime });
+      console.log(`[Rate Limiter] All ${keys.length} key(s) busy, waiting ${waitTime}ms...`);
+      await sleep(waitTime);
+    }
+  });
+  keyQueue = next.catch(() => undefined);
+  return next;
+}
+
+export interface CallUsage {
+  provider: AIProviderId;
+  operation: UsageOperation;
+  inputTokens: number;          // Rough prompt size, see usageLedger
+}
+
+/**
+ * One rate-limited request, recorded in the usage ledger whatever its outcome.
+ * Gemini requests get a key from the pool; a key that is rate limited or
+ * rejected is parked and the request moves on to the next key.
+ */
+export async function trackedCall<T>(usage: CallUsage, model: string, fn: (apiKey: string) => Promise<T>): Promise<T> {
+  for (;;) {
+    let apiKey = '';
+    if (usage.provider === 'gemini') {
+      apiKey = await acquireKey();
+    } else {
+      await waitForRateLimit(usage.provider);
+      inFlight[usage.provider] = (inFlight[usage.provider] || 0) + 1;
+    }
+    const lane = laneFor(usage.provider, apiKey || undefined);
+    const entry = { ...usage, at: Date.now(), model, keyId: apiKey ? keyId(apiKey) : undefined };
+
+    try {
+      const result = await fn(apiKey);
+      recordUsage({ ...entry, outcome: 'ok' });
+      if (apiKey) markKeyOk(apiKey);
+      return result;
+    } catch (err) {
+      const error = toAppError(err);
+      recordUsage({ ...entry, outcome: error.code === 'quota-exceeded' ? 'rate-limited' : 'error' });
+      if (!apiKey) throw error;
+      if (error instanceof QuotaExceededError) markKeyRateLimited(apiKey, error);
+      else if (error.code === 'invalid-key') markKeyInvalid(apiKey);
+      else throw error;
+      // No other key to fail over to - leave the retry decision to the caller
+      if (!loadApiKeys().some(isKeyUsable)) throw error;
+      console.log(`[API] Key ${keyId(apiKey)} unavailable, switching key`);
+    } finally {
+      inFlight[lane] = (inFlight[lane] || 1) - 1;
+    }
+  }
+}
+
+// ========================================
+// Model Fallback System
+// ========================================
+const FATAL_CODES: AppErrorCode[] = ['missing-key', 'invalid-key', 'safety-blocked', 'offline'];
+
+export async function callWithModelFallback<T>(
+  fn: (model: string, apiKey: string) => Promise<T>,
+  models: string[],
+  usage: CallUsage,
+  observer?: CallObserver,
+  maxRetries = 2  // Reduced from 3 to save quota
+): Promise<T> {
+  let lastError: AppError = new ModelNotFoundError(models.join(', '));
+
+  for (const model of models) {
+    let delay = 3000; // Start with longer delay to respect rate limits
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        console.log(`[API] ${model} (attempt ${attempt + 1}/${maxRetries})`);
+        observer?.onModel?.(model);
+        return await trackedCall(usage, model, apiKey => fn(model, apiKey)); // Enforces rate limiting
+      } catch (err) {
+        const error = toAppError(err);
+        lastError = error;
+
+        // Another attempt or model would fail the same way
+        if (FATAL_CODES.includes(error.code)) throw error;
+
+        // If model not found, skip to next model immediately (don't waste retries)
+        if (error.code === 'model-not-found') {
+          console.log(`[API] ${model} not found, skipping to next model`);
+          lastError = new ModelNotFoundError(model, err);
+          break;
+        }
+
+        // If rate limit, use longer delay before retry
+        if (error.code === 'quota-exceeded' && attempt < maxRetries - 1) {
+          const rateLimitDelay = delay * 2;
+          console.log(`[API] Rate limited, waiting ${rateLimitDelay}ms before retry...`);
+          await sleep(rateLimitDelay);
+          delay *= 2;
+          continue;
+        }
+
+        // Server error or garbled output - retry with normal delay
+        if (attempt < maxRetries - 1) {
+          console.log(`[API] ${error.code} (${error.detail || error.title}), retrying in ${delay}ms...`);
+          await sleep(delay);
+          delay *= 2;
+          continue;
+        }
+
+        // Try next model if available
+        if (models.indexOf(model) < models.length - 1) {
+          console.log(`[API] ${model} failed, trying next model`);
+          break;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  throw lastError;
+}
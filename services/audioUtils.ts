@@ -0,0 +1,193 @@
+// ========================================
+// Audio Utilities - recording formats, WAV encoding
+// ========================================
+
+/**
+ * Best MediaRecorder format this browser supports (Safari only does mp4)
+ */
+export function pickRecordingMimeType(): string {
+  return MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+    ? 'audio/webm;codecs=opus'
+    : MediaRecorder.isTypeSupported('audio/webm')
+      ? 'audio/webm'
+      : 'audio/mp4';
+}
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise<string>((res, rej) => {
+    const reader = new FileReader();
+    reader.onloadend = () => res((reader.result as string).split(',')[1]);
+    reader.onerror = () => rej(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Convert an AudioBuffer to a 16-bit PCM WAV blob
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const length = buffer.length;
+  const arrayBuffer = new ArrayBuffer(44 + length * numChannels * 2);
+  const view = new DataView(arrayBuffer);
+
+  // WAV header
+  const writeString = (offset: number, s: string) => { for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i)); };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + length * numChannels * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, length * numChannels * 2, true);
+
+  // Audio data
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = Math.max(-1, Math.min(1, buffer.getChannelData(ch)[i]));
+      view.setInt16(offset, sample * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([arrayBuffer], { type: 'audio/wav' });
+}
+
+/**
+ * Decode a recorded blob (webm/mp4/wav) into an AudioBuffer
+ */
+export async function decodeRecording(blob: Blob, ctx?: BaseAudioContext): Promise<AudioBuffer> {
+  const context = ctx || new OfflineAudioContext(1, 1, 48000);
+  return context.decodeAudioData(await blob.arrayBuffer());
+}
+
+/**
+ * Join several recordings into one mono WAV. Compressed containers (webm)
+ * cannot simply be concatenated, so each clip is decoded to PCM first.
+ */
+export async function concatRecordings(blobs: Blob[]): Promise<Blob> {
+  const buffers = await Promise.all(blobs.map(b => decodeRecording(b)));
+  const sampleRate = buffers[0]?.sampleRate || 48000;
+  const total = buffers.reduce((sum, b) => sum + b.length, 0);
+  const joined = new AudioBuffer({ length: Math.max(1, total), numberOfChannels: 1, sampleRate });
+  const out = joined.getChannelData(0);
+  let offset = 0;
+  for (const b of buffers) {
+    out.set(b.getChannelData(0), offset);
+    offset += b.length;
+  }
+  return encodeWav(joined);
+}
+
+const TRIM_SAMPLE_RATE = 16000;   // Plenty for speech and fewer bytes than 24/48 kHz
+const TRIM_WINDOW_MS = 20;
+const TRIM_THRESHOLD_RMS = 0.015;
+const TRIM_PADDING_MS = 250;      // Keep a little air so first/last sounds are not cut
+
+/**
+ * Cut leading and trailing silence and return a 16 kHz mono WAV. The WAV is
+ * larger than the recorder's compressed clip, but shorter: audio input is
+ * billed per second, and silence at the ends is not counted as hesitation.
+ * (Re-encoding to Opus needs WebCodecs, which not every tablet browser has.)
+ * A clip with no voice at all is returned unchanged so the caller's
+ * "recording too short" checks still apply.
+ */
+export async function trimSilence(blob: Blob): Promise<Blob> {
+  const buffer = await decodeRecording(blob, new OfflineAudioContext(1, 1, TRIM_SAMPLE_RATE));
+  const data = buffer.getChannelData(0);
+  const windowSize = Math.floor((buffer.sampleRate * TRIM_WINDOW_MS) / 1000);
+
+  const isVoiced = (start: number) => {
+    let sum = 0;
+    const end = Math.min(data.length, start + windowSize);
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+    return Math.sqrt(sum / Math.max(1, end - start)) >= TRIM_THRESHOLD_RMS;
+  };
+
+  let first = -1;
+  for (let i = 0; i < data.length; i += windowSize) if (isVoiced(i)) { first = i; break; }
+  if (first < 0) return blob;
+  let last = first;
+  for (let i = data.length - windowSize; i > first; i -= windowSize) if (isVoiced(i)) { last = i + windowSize; break; }
+
+  const padding = Math.floor((buffer.sampleRate * TRIM_PADDING_MS) / 1000);
+  const start = Math.max(0, first - padding);
+  const end = Math.min(data.length, last + padding);
+  const trimmed = new AudioBuffer({ length: Math.max(1, end - start), numberOfChannels: 1, sampleRate: buffer.sampleRate });
+  trimmed.copyToChannel(data.slice(start, end), 0);
+  return encodeWav(trimmed);
+}
+
+/**
+ * RMS level of consecutive fixed-length frames - the basis of every local speech measurement
+ */
+export function frameRms(data: Float32Array, sampleRate: number, frameMs: number): number[] {
+  const frameSize = Math.floor((sampleRate * frameMs) / 1000);
+  const frames: number[] = [];
+  for (let start = 0; start + frameSize <= data.length; start += frameSize) {
+    let sum = 0;
+    for (let i = start; i < start + frameSize; i++) sum += data[i] * data[i];
+    frames.push(Math.sqrt(sum / frameSize));
+  }
+  return frames;
+}
+
+const STRETCH_FRAME_MS = 40;
+const STRETCH_TOLERANCE_MS = 10;
+
+/**
+ * Pitch-preserving time-stretch (WSOLA). `speed` > 1 shortens the audio.
+ * Plain playbackRate would also raise the pitch - 1.2x sounds like a chipmunk.
+ * Output is mono, which is all the TTS voice ever is.
+ */
+export function timeStretch(buffer: AudioBuffer, speed: number): AudioBuffer {
+  const input = buffer.getChannelData(0);
+  const frame = Math.floor((buffer.sampleRate * STRETCH_FRAME_MS) / 1000);
+  const synthesisHop = Math.floor(frame / 2);
+  const analysisHop = synthesisHop * speed;
+  const tolerance = Math.floor((buffer.sampleRate * STRETCH_TOLERANCE_MS) / 1000);
+  const outLength = Math.ceil(input.length / speed);
+
+  const output = new Float32Array(outLength + frame);
+  const weights = new Float32Array(outLength + frame);
+  const hann = Float32Array.from({ length: frame }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame));
+
+  let previous = 0;
+  for (let k = 0; k * synthesisHop < outLength; k++) {
+    const nominal = Math.round(k * analysisHop);
+    let position = Math.min(nominal, Math.max(0, input.length - frame));
+
+    if (k > 0) {
+      // Pick the offset whose start best continues the previous frame (coarse steps keep it fast)
+      const natural = previous + synthesisHop;
+      let best = -Infinity;
+      for (let delta = -tolerance; delta <= tolerance; delta += 2) {
+        const candidate = nominal + delta;
+        if (candidate < 0 || candidate + synthesisHop >= input.length || natural + synthesisHop >= input.length) continue;
+        let correlation = 0;
+        for (let i = 0; i < synthesisHop; i += 4) correlation += input[candidate + i] * input[natural + i];
+        if (correlation > best) { best = correlation; position = candidate; }
+      }
+    }
+
+    const outStart = k * synthesisHop;
+    for (let i = 0; i < frame && position + i < input.length; i++) {
+      output[outStart + i] += input[position + i] * hann[i];
+      weights[outStart + i] += hann[i];
+    }
+    previous = position;
+  }
+
+  const stretched = new AudioBuffer({ length: Math.max(1, outLength), numberOfChannels: 1, sampleRate: buffer.sampleRate });
+  const data = stretched.getChannelData(0);
+  for (let i = 0; i < outLength; i++) data[i] = weights[i] > 1e-3 ? output[i] / weights[i] : 0;
+  return stretched;
+}
@@ -0,0 +1,100 @@
+// ========================================
+// IndexedDB Storage - Local persistence for SpeakPro
+// ========================================
+// Everything the app keeps between sessions (practice history, recordings, vocabulary deck,
+// cached lessons...)
+// lives in a single database so one upgrade path handles all object stores.
+
+const DB_NAME = 'speakpro';
+const DB_VERSION = 4;
+
+export const STORES = {
+  attempts: 'attempts',
+  vocabCards: 'vocabCards',
+  vocabReviews: 'vocabReviews',
+  lessons: 'lessons',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Must match DEFAULT_PROFILE_ID in profileService (kept literal to avoid a circular import)
+const LEGACY_PROFILE_ID = 'default';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      if (!db.objectStoreNames.contains(STORES.attempts)) {
+        const attempts = db.createObjectStore(STORES.attempts, { keyPath: 'id' });
+        attempts.createIndex('createdAt', 'createdAt');
+      }
+      // v2: attempts are scoped to a learner profile
+      if (event.oldVersion < 2) {
+        const attempts = tx.objectStore(STORES.attempts);
+        attempts.createIndex('profileId', 'profileId');
+        attempts.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          if (!cursor.value.profileId) cursor.update({ ...cursor.value, profileId: LEGACY_PROFILE_ID });
+          cursor.continue();
+        };
+      }
+      // v3: spaced-repetition vocabulary deck
+      if (event.oldVersion < 3) {
+        const cards = db.createObjectStore(STORES.vocabCards, { keyPath: 'id' });
+        cards.createIndex('profileId', 'profileId');
+        const reviews = db.createObjectStore(STORES.vocabReviews, { keyPath: 'id' });
+        reviews.createIndex('profileId', 'profileId');
+      }
+      // v4: offline lesson cache
+      if (event.oldVersion < 4) {
+        db.createObjectStore(STORES.lessons, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise that settles when the transaction commits
+ */
+async function runRequest<T>(store: StoreName, mode: IDBTransactionMode, fn: (os: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDB();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function putRecord<T>(store: StoreName, value: T): Promise<void> {
+  await runRequest(store, 'readwrite', os => os.put(value));
+}
+
+export async function getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return runRequest<T | undefined>(store, 'readonly', os => os.get(key));
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  return runRequest<T[]>(store, 'readonly', os => os.getAll());
+}
+
+export async function getAllByIndex<T>(store: StoreName, index: string, query: IDBValidKey): Promise<T[]> {
+  return runRequest<T[]>(store, 'readonly', os => os.index(index).getAll(query));
+}
+
+export async function deleteRecord(store: StoreName, key: IDBValidKey): Promise<void> {
+  await runRequest(store, 'readwrite', os => os.delete(key));
+}
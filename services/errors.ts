@@ -0,0 +1,223 @@
+// ========================================
+// App Errors - typed failures with a code, a retry flag and Vietnamese text
+// ========================================
+// Providers and the API client throw these (or have raw SDK / fetch errors
+// converted by toAppError), so nothing downstream has to sniff message text.
+// `message` is the full user-facing text, so `err.message` keeps working.
+
+export type AppErrorCode =
+  | 'missing-key'
+  | 'invalid-key'
+  | 'quota-exceeded'
+  | 'model-not-found'
+  | 'safety-blocked'
+  | 'malformed-response'
+  | 'mic-denied'
+  | 'offline'
+  | 'server-busy'
+  | 'unknown';
+
+// What the ERROR screen offers: re-run the failed step, open Settings, pick another theme, open saved lessons
+export type RecoveryAction = 'retry' | 'settings' | 'new-theme' | 'library';
+
+export interface Recovery {
+  action: RecoveryAction;
+  label: string;
+}
+
+interface ErrorText {
+  title: string;
+  hint: string;
+  retryable: boolean;
+  recovery: Recovery[];
+}
+
+const RETRY: Recovery = { action: 'retry', label: 'Thử lại' };
+
+const ERROR_TEXT: Record<AppErrorCode, ErrorText> = {
+  'missing-key': {
+    title: '⚠️ Chưa có API Key!',
+    hint: 'Vào Cài đặt ⚙️ để nhập key (lấy miễn phí tại aistudio.google.com/apikey).',
+    retryable: false,
+    recovery: [{ action: 'settings', label: 'Nhập API Key' }],
+  },
+  'invalid-key': {
+    title: '⚠️ API Key không hợp lệ!',
+    hint: 'Kiểm tra lại key trong Cài đặt ⚙️ - có thể bị thiếu ký tự khi dán.',
+    retryable: false,
+    recovery: [{ action: 'settings', label: 'Kiểm tra API Key' }],
+  },
+  'quota-exceeded': {
+    title: '⚠️ API Key hết quota!',
+    hint: 'Chờ 1 phút rồi thử lại, hoặc thêm API Key khác trong Cài đặt ⚙️.',
+    retryable: true,
+    recovery: [RETRY, { action: 'settings', label: 'Thêm API Key' }],
+  },
+  'model-not-found': {
+    title: '❌ Model AI không còn khả dụng',
+    hint: 'Model đang dùng đã bị ngừng hoặc đổi tên. Hãy chọn nguồn AI khác trong Cài đặt ⚙️.',
+    retryable: false,
+    recovery: [{ action: 'settings', label: 'Đổi nguồn AI' }],
+  },
+  'safety-blocked': {
+    title: '🙈 Nội dung bị chặn',
+    hint: 'AI từ chối tạo nội dung cho chủ đề này. Bé hãy chọn một chủ đề khác nhé!',
+    retryable: false,
+    recovery: [{ action: 'new-theme', label: 'Chọn chủ đề khác' }],
+  },
+  'malformed-response': {
+    title: '🤔 AI trả lời chưa đúng định dạng',
+    hint: 'Thường chỉ là trục trặc tạm thời - bấm Thử lại nhé.',
+    retryable: true,
+    recovery: [RETRY],
+  },
+  'mic-denied': {
+    title: '🎤 Chưa dùng được Microphone',
+    hint: 'Bé ơi, hãy cho phép dùng Microphone nhé! Bấm biểu tượng 🔒 cạnh địa chỉ trang, bật Micro rồi thử lại.',
+    retryable: true,
+    recovery: [RETRY],
+  },
+  'offline': {
+    title: '📡 Mất kết nối mạng',
+    hint: 'Kiểm tra Wi-Fi rồi thử lại. Các bài học đã lưu vẫn mở được khi không có mạng.',
+    retryable: true,
+    recovery: [RETRY, { action: 'library', label: 'Mở bài đã lưu' }],
+  },
+  'server-busy': {
+    title: '⏳ Máy chủ AI đang bận',
+    hint: 'Chờ một chút rồi thử lại nhé.',
+    retryable: true,
+    recovery: [RETRY],
+  },
+  'unknown': {
+    title: 'Ối! Có lỗi rồi',
+    hint: 'Vui lòng thử lại hoặc kiểm tra cài đặt.',
+    retryable: true,
+    recovery: [RETRY, { action: 'settings', label: 'Mở cài đặt' }],
+  },
+};
+
+export interface AppErrorOptions {
+  hint?: string;                // Replaces the default hint for the code
+  detail?: string;              // Technical detail for the console, not shown to the child
+  cause?: unknown;
+}
+
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+  readonly retryable: boolean;
+  readonly title: string;
+  readonly hint: string;
+  readonly recovery: Recovery[];
+  readonly detail?: string;
+
+  constructor(code: AppErrorCode, options: AppErrorOptions = {}) {
+    const text = ERROR_TEXT[code];
+    const hint = options.hint ?? text.hint;
+    super(`${text.title}\n\n${hint}`, { cause: options.cause });
+    this.name = 'AppError';
+    this.code = code;
+    this.retryable = text.retryable;
+    this.title = text.title;
+    this.hint = hint;
+    this.recovery = text.recovery;
+    this.detail = options.detail;
+  }
+}
+
+export class MissingApiKeyError extends AppError {
+  constructor() { super('missing-key'); }
+}
+
+export class InvalidApiKeyError extends AppError {
+  constructor(cause?: unknown) { super('invalid-key', { cause }); }
+}
+
+export class QuotaExceededError extends AppError {
+  readonly retryAfterMs?: number;
+  readonly daily: boolean;      // The per-day quota ran out, not just the per-minute one
+
+  constructor(options: { retryAfterMs?: number; daily?: boolean; cause?: unknown } = {}) {
+    const minutes = options.retryAfterMs ? Math.ceil(options.retryAfterMs / 60000) : 0;
+    super('quota-exceeded', {
+      cause: options.cause,
+      hint: options.daily
+        ? 'Hết lượt dùng của hôm nay. Thêm API Key khác trong Cài đặt ⚙️ hoặc quay lại vào ngày mai.'
+        : minutes > 1 ? `Chờ khoảng ${minutes} phút rồi thử lại, hoặc thêm API Key khác trong Cài đặt ⚙️.` : undefined,
+    });
+    this.retryAfterMs = options.retryAfterMs;
+    this.daily = !!options.daily;
+  }
+}
+
+export class ModelNotFoundError extends AppError {
+  readonly model?: string;
+  constructor(model?: string, cause?: unknown) {
+    super('model-not-found', { detail: model, cause });
+    this.model = model;
+  }
+}
+
+export class SafetyBlockedError extends AppError {
+  constructor(reason?: string) { super('safety-blocked', { detail: reason }); }
+}
+
+export class MalformedResponseError extends AppError {
+  constructor(detail: string, cause?: unknown) { super('malformed-response', { detail, cause }); }
+}
+
+export class MicrophoneDeniedError extends AppError {
+  constructor(cause?: unknown) { super('mic-denied', { cause }); }
+}
+
+export class NetworkOfflineError extends AppError {
+  constructor(cause?: unknown) { super('offline', { cause }); }
+}
+
+export class ServerBusyError extends AppError {
+  constructor(cause?: unknown) { super('server-busy', { cause }); }
+}
+
+function errorText(err: any): string {
+  let json = '';
+  try {
+    json = JSON.stringify(err) || '';
+  } catch {
+    // Circular - the message alone will do
+  }
+  return `${err?.message || ''} ${json}`.toUpperCase();
+}
+
+/**
+ * Retry delay the API suggests, e.g. "retryDelay": "37s" in a 429 body
+ */
+function parseRetryAfterMs(text: string): number | undefined {
+  const match = text.match(/RETRY(?:DELAY)?[^0-9]{0,12}(\d+(?:\.\d+)?)S/);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Classify anything a provider call can throw. Gemini SDK errors and the
+ * local-server fetch errors both carry the HTTP `status`; the Google error
+ * reason (API_KEY_INVALID, RESOURCE_EXHAUSTED...) is only in the body text.
+ */
+export function toAppError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  const e = err as any;
+  const status: number | undefined = typeof e?.status === 'number' ? e.status : undefined;
+  const text = errorText(e);
+
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) || (e instanceof TypeError && /fetch|network/i.test(e.message))) {
+    return new NetworkOfflineError(err);
+  }
+  if (status === 401 || status === 403 || text.includes('API_KEY_INVALID') || text.includes('API KEY NOT VALID')) {
+    return new InvalidApiKeyError(err);
+  }
+  if (status === 429 || text.includes('RESOURCE_EXHAUSTED')) {
+    return new QuotaExceededError({ retryAfterMs: parseRetryAfterMs(text), daily: text.includes('PERDAY'), cause: err });
+  }
+  if (status === 404 || text.includes('NOT_FOUND')) return new ModelNotFoundError(undefined, err);
+  if ((status !== undefined && status >= 500) || text.includes('UNAVAILABLE')) return new ServerBusyError(err);
+  if (e instanceof SyntaxError) return new MalformedResponseError(e.message, err);
+  return new AppError('unknown', { hint: e?.message || undefined, detail: e?.message, cause: err });
+}
@@ -0,0 +1,71 @@
+import { CEFRLevel, FluencyStats } from "../types";
+import { decodeRecording, frameRms } from "./audioUtils";
+import { countWords } from "./scriptAlignment";
+
+// ========================================
+// Fluency Analysis - speaking rate and pauses, measured locally
+// ========================================
+// The model's fluency score is a single number. These measurements explain it:
+// a child who reads at 40 wpm with 4-second hesitations scores low for a
+// different reason than one who rushes through without breathing.
+
+export interface FluencyTarget {
+  wordsPerMinute: [number, number];
+  longestPause: number;         // Seconds, upper bound
+  averagePause: number;         // Seconds, upper bound
+  speechRatio: number;          // Lower bound
+}
+
+export const FLUENCY_TARGETS: Record<CEFRLevel, FluencyTarget> = {
+  'Starters': { wordsPerMinute: [40, 70], longestPause: 3, averagePause: 1.2, speechRatio: 0.5 },
+  'Movers': { wordsPerMinute: [50, 80], longestPause: 2.5, averagePause: 1, speechRatio: 0.55 },
+  'Flyers': { wordsPerMinute: [60, 90], longestPause: 2.5, averagePause: 1, speechRatio: 0.55 },
+  'A1': { wordsPerMinute: [70, 100], longestPause: 2, averagePause: 0.8, speechRatio: 0.6 },
+  'A2': { wordsPerMinute: [80, 110], longestPause: 2, averagePause: 0.8, speechRatio: 0.6 },
+  'B1': { wordsPerMinute: [95, 130], longestPause: 1.5, averagePause: 0.7, speechRatio: 0.65 },
+  'B2': { wordsPerMinute: [110, 145], longestPause: 1.2, averagePause: 0.6, speechRatio: 0.7 },
+  'C1': { wordsPerMinute: [120, 160], longestPause: 1, averagePause: 0.5, speechRatio: 0.7 },
+  'C2': { wordsPerMinute: [130, 170], longestPause: 1, averagePause: 0.5, speechRatio: 0.75 },
+};
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const VOICE_RMS = 0.015;
+const MIN_PAUSE_MS = 250;       // Shorter gaps are normal word boundaries
+
+/**
+ * Measure the recording. The transcript supplies the word count, since the
+ * child may have skipped or added words compared with the script.
+ */
+export async function analyzeFluency(blob: Blob, transcript: string): Promise<FluencyStats> {
+  const buffer = await decodeRecording(blob, new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE));
+  const voiced = frameRms(buffer.getChannelData(0), buffer.sampleRate, FRAME_MS).map(rms => rms >= VOICE_RMS);
+
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  if (first < 0) return { wordsPerMinute: 0, pauseCount: 0, averagePause: 0, longestPause: 0, speechRatio: 0 };
+
+  // Silent runs between the first and last voiced frame
+  const pauses: number[] = [];
+  let run = 0;
+  let voicedFrames = 0;
+  for (let i = first; i <= last; i++) {
+    if (voiced[i]) {
+      voicedFrames++;
+      if (run * FRAME_MS >= MIN_PAUSE_MS) pauses.push((run * FRAME_MS) / 1000);
+      run = 0;
+    } else {
+      run++;
+    }
+  }
+
+  const spanSeconds = ((last - first + 1) * FRAME_MS) / 1000;
+  const round = (n: number, digits = 1) => Math.round(n * 10 ** digits) / 10 ** digits;
+  return {
+    wordsPerMinute: Math.round((countWords(transcript) / spanSeconds) * 60),
+    pauseCount: pauses.length,
+    averagePause: pauses.length > 0 ? round(pauses.reduce((a, b) => a + b, 0) / pauses.length) : 0,
+    longestPause: round(Math.max(0, ...pauses)),
+    speechRatio: round(voicedFrames / (last - first + 1), 2),
+  };
+}
@@ -1,318 +1,231 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { CEFRLevel, EvaluationResult } from "../types";
+import { CEFRLevel, EvaluationResult, PresentationData, VocabularyItem, VoiceSettings } from "../types";
+import { LEVEL_SPEECH_PACE } from "./prompts";
+import { alignWords, buildMistakes } from "./scriptAlignment";
+import { MalformedResponseError, toAppError } from "./errors";
+import { Validated, validateEvaluation, validateScript } from "./responseValidation";
+import { AIProvider, CallObserver, EvaluationTarget, MainProviderId, RepairRequest, ScriptPayload, SpeechOptions } from "./providers/aiProvider";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { createOpenAICompatibleProvider, loadLocalLlmConfig } from "./providers/openAICompatibleProvider";
+
+export { getApiKey, decode, decodeAudioData } from "./providers/geminiProvider";
 
 // ========================================
-// API Key Management
+// Provider Selection
 // ========================================
+// Gemini is the default; the mock provider runs the whole app offline without a key.
+// A configured OpenAI-compatible endpoint takes over script generation and evaluation.
 
-/**
- * Get API key with priority: localStorage > environment variable
- * Following AI_INSTRUCTIONS.md: "Ưu tiên sử dụng key từ localStorage"
- */
-export function getApiKey(): string {
-  // Priority 1: User's key from Settings
-  const userKey = localStorage.getItem('speakpro_api_key');
-  if (userKey && userKey.trim()) return userKey.trim();
+const PROVIDER_KEY = 'speakpro_provider';
 
-  // Priority 2: Environment variable (dev only - from vite.config.ts)
-  const envKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-  if (envKey && envKey.trim()) return envKey.trim();
+const PROVIDERS: Record<MainProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
 
-  throw new Error('⚠️ Chưa có API Key! Vào Settings (⚙️) để nhập key.');
-}
+export const AVAILABLE_PROVIDERS: AIProvider[] = Object.values(PROVIDERS);
 
-/**
- * Create AI client with proper API key
- */
-function createAIClient(): GoogleGenAI {
-  return new GoogleGenAI({ apiKey: getApiKey() });
+export function getActiveProviderId(): MainProviderId {
+  const saved = localStorage.getItem(PROVIDER_KEY) as MainProviderId | null;
+  return saved && saved in PROVIDERS ? saved : 'gemini';
 }
 
-// ========================================
-// Model Configuration - 2026 Stable Models
-// https://ai.google.dev/gemini-api/docs/models
-// ========================================
-// Free tier limits: 10 RPM, 250 RPD, 250K TPM
-// Strategy: Use cheapest model first, minimize retries
-
-const MODEL_FALLBACK_CHAIN = [
-  'gemini-2.5-flash-lite',     // Primary: Cheapest, optimized for high-throughput
-  'gemini-2.5-flash',          // Fallback: Fast, best price-performance
-];
-
-type ModelType = 'text' | 'image';
-
-// ========================================
-// Rate Limiter - Prevent exceeding 10 RPM
-// ========================================
-const requestTimestamps: number[] = [];
-const MAX_RPM = 8; // Stay under 10 RPM limit with buffer
+export function setActiveProviderId(id: MainProviderId): void {
+  localStorage.setItem(PROVIDER_KEY, id);
+}
 
-async function waitForRateLimit(): Promise<void> {
-  const now = Date.now();
-  // Remove timestamps older than 60 seconds
-  while (requestTimestamps.length > 0 && requestTimestamps[0] < now - 60000) {
-    requestTimestamps.shift();
-  }
+export function getActiveProvider(): AIProvider {
+  return PROVIDERS[getActiveProviderId()];
+}
 
-  if (requestTimestamps.length >= MAX_RPM) {
-    const waitTime = requestTimestamps[0] + 60000 - now + 500; // Wait until oldest request expires + buffer
-    console.log(`[Rate Limiter] Approaching limit (${requestTimestamps.length}/${MAX_RPM} RPM), waiting ${waitTime}ms...`);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-  }
+/**
+ * Provider for the text-in/JSON-out operations (script, evaluation, vocabulary)
+ */
+function getLanguageProvider(): AIProvider {
+  const local = loadLocalLlmConfig();
+  if (local.enabled && local.baseUrl.trim() && local.models.length > 0) return createOpenAICompatibleProvider(local);
+  return getActiveProvider();
+}
 
-  requestTimestamps.push(Date.now());
+/**
+ * Gemini requests an action will spend, for the daily budget check.
+ * A lesson is illustration + teacher voice + a script written twice (from the theme, then
+ * from the picture); the local server takes over script and evaluation.
+ */
+export function geminiRequestsFor(action: 'lesson' | 'image' | 'speech' | 'script' | 'evaluation'): number {
+  if (getActiveProviderId() !== 'gemini') return 0;
+  const languageOnGemini = getLanguageProvider().id === 'gemini' ? 1 : 0;
+  if (action === 'lesson') return 2 + 2 * languageOnGemini;
+  return action === 'image' || action === 'speech' ? 1 : languageOnGemini;
 }
 
 // ========================================
-// Model Fallback System
+// Lesson Operations
 // ========================================
-async function callWithModelFallback<T>(
-  fn: (model: string) => Promise<T>,
-  modelType: ModelType = 'text',
-  maxRetries = 2  // Reduced from 3 to save quota
-): Promise<T> {
-  // Use text models for image generation - they support it natively!
-  // gemini-2.5-flash-image NOT available in free tier, causes quota errors
-  const models = MODEL_FALLBACK_CHAIN;
-
-  let lastError: any;
 
-  for (const model of models) {
-    let delay = 3000; // Start with longer delay to respect rate limits
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        await waitForRateLimit(); // Enforce rate limiting
-        console.log(`[API] ${model} (attempt ${attempt + 1}/${maxRetries})`);
-        return await fn(model);
-      } catch (err: any) {
-        lastError = err;
-        const errorStr = JSON.stringify(err).toLowerCase();
-        const isNotFound = err?.status === 404 || errorStr.includes('not_found');
-        const isRateLimit = err?.status === 429 || errorStr.includes('quota') || errorStr.includes('rate limit') || errorStr.includes('resource_exhausted');
-        const isServerError = err?.status >= 500 || errorStr.includes('internal error');
-
-        // If model not found, skip to next model immediately (don't waste retries)
-        if (isNotFound) {
-          console.log(`[API] ${model} not found, skipping to next model`);
-          break;
-        }
-
-        // If rate limit, use longer delay before retry
-        if (isRateLimit && attempt < maxRetries - 1) {
-          const rateLimitDelay = delay * 2;
-          console.log(`[API] Rate limited, waiting ${rateLimitDelay}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, rateLimitDelay));
-          delay *= 2;
-          continue;
-        }
-
-        // If server error, retry with normal delay
-        if (isServerError && attempt < maxRetries - 1) {
-          console.log(`[API] Server error (${err?.status}), retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          delay *= 2;
-          continue;
-        }
-
-        // Try next model if available
-        if (models.indexOf(model) < models.length - 1) {
-          console.log(`[API] ${model} failed, trying next model`);
-          break;
-        }
+export const generateIllustration = async (theme: string, observer?: CallObserver): Promise<string> => {
+  return getActiveProvider().generateIllustration(theme, observer);
+};
 
-        throw err;
-      }
-    }
+/**
+ * Validate the model's JSON and send an off-spec answer back for one repair.
+ * With `repairUsable` false only an unusable answer is repaired - evaluation
+ * accepts small problems (an empty feedback) rather than uploading the
+ * recording again. When the repair is no better, the first usable answer wins.
+ */
+async function requestValidated<T>(
+  request: (repair?: RepairRequest) => Promise<unknown>,
+  validate: (raw: unknown) => Validated<T>,
+  what: string,
+  repairUsable = true
+): Promise<T> {
+  const raw = await request();
+  const first = validate(raw);
+  if (first.value && (first.problems.length === 0 || !repairUsable)) {
+    if (first.problems.length > 0) console.warn(`[Validation] ${what} imperfect, using it`, first.problems);
+    return first.value;
   }
 
-  throw new Error(`⚠️ API Key hết quota!\n\nHãy:\n1. Nhấn nút ⚙️ để đổi key mới\n2. Hoặc chờ 1 phút rồi thử lại`);
+  console.warn(`[Validation] ${what} off-spec, asking for a repair`, first.problems);
+  let second: Validated<T>;
+  try {
+    second = validate(await request({ previous: raw, problems: first.problems }));
+  } catch (err) {
+    if (!first.value) throw err;
+    console.warn(`[Validation] ${what} repair failed, using the first answer`, err);
+    return first.value;
+  }
+  if (second.value && second.problems.length === 0) return second.value;
+  const fallback = first.value || second.value;
+  if (fallback) {
+    console.warn(`[Validation] ${what} repair still off-spec, using the first usable answer`, second.problems);
+    return fallback;
+  }
+  throw new MalformedResponseError(`${what}: ${second.problems.join(' ')}`);
 }
 
-export const generateIllustration = async (theme: string): Promise<string> => {
-  return callWithModelFallback(async (model) => {
-    const ai = createAIClient(); // Use helper with localStorage priority
-    const prompt = `A vibrant, very colorful, high-quality 3D Pixar style illustration for children: ${theme}. Bright saturated colors, happy characters, 16:9 ratio.`;
-    const response = await ai.models.generateContent({
-      model, // Use dynamic model from fallback
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { aspectRatio: "16:9" } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("❌ Không thể tạo ảnh minh họa.\n\nVui lòng thử lại hoặc chọn chủ đề khác.");
-  }, 'image');
+export const generatePresentationScript = async (imageUri: string, theme: string, level: CEFRLevel, observer?: CallObserver): Promise<ScriptPayload> => {
+  const provider = getLanguageProvider();
+  return requestValidated(
+    repair => provider.generateScript(imageUri, theme, level, repair, observer),
+    raw => validateScript(raw, level),
+    'Script'
+  );
 };
 
-export const generatePresentationScript = async (imageUri: string, theme: string, level: CEFRLevel): Promise<any> => {
-  return callWithModelFallback(async (model) => {
-    const ai = createAIClient(); // Use helper with localStorage priority
-    const levelConstraints: Record<string, string> = {
-      'Starters': 'Strictly 20 words. Grammar: Extremely simple nouns/verbs. Example: "I see a cat. It is red."',
-      'Movers': 'Strictly 50 words. Grammar: Simple present, clear sentences.',
-      'Flyers': 'Strictly 80 words. Grammar: Present continuous, basic conjunctions.',
-      'A1': '100-120 words. Grammar: Basic daily routine, simple compound sentences.',
-      'A2': '150-180 words. Grammar: Past simple, linking words (because, so).',
-      'B1': '200-250 words. Grammar: Relative clauses, expressing opinions.',
-      'B2': '250-300 words. Grammar: Passive voice, conditionals.'
-    };
+/**
+ * Generate and assemble a complete lesson. Without a picture the script is
+ * written from the theme alone; it can be rewritten once the picture exists.
+ */
+export const generatePresentation = async (imageUri: string, theme: string, level: CEFRLevel, observer?: CallObserver): Promise<PresentationData> => {
+  const { intro, points, conclusion, lessonVocab } = await generatePresentationScript(imageUri, theme, level, observer);
+  return {
+    theme, imageUri, level,
+    intro, points, conclusion, lessonVocab,
+    script: `${intro} ${points.join(' ')} ${conclusion}`,
+    scriptWithoutImage: !imageUri,
+  };
+};
 
-    // Build prompt parts based on whether image is provided
-    const parts: any[] = [];
+export const speechOptionsFor = (voice: VoiceSettings, level: CEFRLevel): SpeechOptions => ({
+  voiceName: voice.voiceName,
+  accent: voice.accent,
+  pace: voice.pace === 'level' ? LEVEL_SPEECH_PACE[level] : voice.pace,
+});
 
-    if (imageUri && imageUri.length > 0) {
-      parts.push({ inlineData: { mimeType: 'image/png', data: imageUri.split(',')[1] } });
-      parts.push({
-        text: `Create an English presentation script for a child at ${level} level about this image. 
-               Theme: "${theme}".
-               CONSTRAINTS: ${levelConstraints[level]}.
-               Return JSON with "intro", "points" (array), "conclusion", and "lessonVocab" (array of {word, ipa, translation, icon}).
-               MANDATORY: "translation" MUST BE IN VIETNAMESE. "icon" is a single emoji.`
-      });
-    } else {
-      parts.push({
-        text: `Create an English presentation script for a child at ${level} level about "${theme}". 
-               CONSTRAINTS: ${levelConstraints[level]}.
-               Return JSON with "intro", "points" (array), "conclusion", and "lessonVocab" (array of {word, ipa, translation, icon}).
-               MANDATORY: "translation" MUST BE IN VIETNAMESE. "icon" is a single emoji.`
-      });
-    }
+/**
+ * Identifies how a voice sounds - audio cached under a different key must be regenerated
+ */
+export const voiceKeyFor = (voice: VoiceSettings, level: CEFRLevel): string => {
+  const { voiceName, accent, pace } = speechOptionsFor(voice, level);
+  return `${voiceName}|${accent}|${pace}`;
+};
 
-    const response = await ai.models.generateContent({
-      model, // Use dynamic model from fallback
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            intro: { type: Type.STRING },
-            points: { type: Type.ARRAY, items: { type: Type.STRING } },
-            conclusion: { type: Type.STRING },
-            lessonVocab: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  word: { type: Type.STRING },
-                  ipa: { type: Type.STRING },
-                  translation: { type: Type.STRING },
-                  icon: { type: Type.STRING }
-                },
-                required: ["word", "ipa", "translation", "icon"]
-              }
-            }
-          }
-        }
-      }
-    });
+// Decoded voices by provider + voice + text. Replaying a vocab word or the
+// script must not cost another TTS request.
+const VOICE_CACHE_LIMIT = 100;
+const voiceCache = new Map<string, Promise<AudioBuffer>>();
+
+export const generateTeacherVoice = async (text: string, voice: VoiceSettings, level: CEFRLevel, observer?: CallObserver): Promise<AudioBuffer> => {
+  const key = `${getActiveProviderId()}|${voiceKeyFor(voice, level)}|${text}`;
+  const cached = voiceCache.get(key);
+  if (cached) {
+    // Refresh its place so the least recently used voice is evicted first
+    voiceCache.delete(key);
+    voiceCache.set(key, cached);
+    return cached;
+  }
 
-    return JSON.parse(response.text || '{}');
+  const pending = getActiveProvider().synthesizeSpeech(text, speechOptionsFor(voice, level), observer).catch((err: unknown) => {
+    voiceCache.delete(key);
+    throw toAppError(err);
   });
+  voiceCache.set(key, pending);
+  if (voiceCache.size > VOICE_CACHE_LIMIT) voiceCache.delete(voiceCache.keys().next().value!);
+  return pending;
 };
 
-export const generateTeacherVoice = async (text: string): Promise<AudioBuffer> => {
-  // TTS doesn't need fallback - it uses a specific stable model
-  try {
-    const ai = createAIClient(); // Use helper with localStorage priority
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts", // TTS model is specific, doesn't use fallback
-      contents: [{ parts: [{ text: `Slow, clear, friendly English for kids: ${text}` }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
-      },
-    });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    return await decodeAudioData(decode(base64Audio!), audioContext, 24000, 1);
-  } catch (err: any) {
-    throw new Error(`Lỗi tạo giọng nói: ${err?.message || 'Unknown error'}`);
-  }
-};
+async function evaluateRecording(target: EvaluationTarget, audioBase64: string, audioMimeType: string, level: CEFRLevel): Promise<Omit<EvaluationResult, 'mistakes' | 'wordAlignment'>> {
+  const provider = getLanguageProvider();
+  const raw = await requestValidated(
+    repair => provider.evaluateRecording(target, audioBase64, audioMimeType, level, repair),
+    validateEvaluation,
+    'Evaluation',
+    false
+  );
+  // Ensure scores are in 0-10 range and rounded
+  const normalize = (val: number | undefined) => {
+    const num = val || 0;
+    return Math.min(10, Math.max(0, Math.round(num * 10) / 10));
+  };
+
+  const evalResult = {
+    ...raw,
+    pronunciation: normalize(raw.pronunciation),
+    fluency: normalize(raw.fluency),
+    intonation: normalize(raw.intonation),
+    vocabulary: normalize(raw.vocabulary),
+    grammar: normalize(raw.grammar),
+    taskFulfillment: normalize(raw.taskFulfillment),
+  };
+
+  const avg = (evalResult.pronunciation + evalResult.fluency + evalResult.intonation + evalResult.vocabulary + evalResult.grammar + evalResult.taskFulfillment) / 6;
+  const score = normalize(avg);
+  return { ...evalResult, score, perceivedLevel: level, keyVocabulary: [] };
+}
 
 export const evaluatePresentation = async (originalScript: string, audioBase64: string, audioMimeType: string, level: CEFRLevel): Promise<EvaluationResult> => {
-  return callWithModelFallback(async (model) => {
-    const ai = createAIClient(); // Use helper with localStorage priority
-    const response = await ai.models.generateContent({
-      model, // Use dynamic model from fallback chain
-      contents: {
-        parts: [
-          { inlineData: { mimeType: audioMimeType, data: audioBase64 } },
-          {
-            text: `Evaluate this child's English presentation. 
-                   Expected script: "${originalScript}"
-                   Level: ${level}.
-                   
-                   INSTRUCTIONS:
-                   1. Listen carefully to the audio. It is a child speaking, so allow for some hesitation or background noise.
-                   2. Scale all criteria from 0 to 10.
-                   3. If you can hear the child trying to speak parts of the script, DO NOT give 0. Give points based on effort and accuracy.
-                   4. ONLY give 0 if the audio is completely silent, or contains NO English words at all.
-                   5. Provide encouraging feedback in VIETNAMESE.
-                   
-                   Return JSON.` }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            transcript: { type: Type.STRING },
-            pronunciation: { type: Type.NUMBER },
-            fluency: { type: Type.NUMBER },
-            intonation: { type: Type.NUMBER },
-            vocabulary: { type: Type.NUMBER },
-            grammar: { type: Type.NUMBER },
-            taskFulfillment: { type: Type.NUMBER },
-            feedback: { type: Type.STRING },
-            teacherPraise: { type: Type.STRING },
-            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
-        }
-      }
-    });
-    const raw = JSON.parse(response.text || '{}');
-    // Ensure scores are in 0-10 range and rounded
-    const normalize = (val: number | undefined) => {
-      const num = val || 0;
-      return Math.min(10, Math.max(0, Math.round(num * 10) / 10));
-    };
+  const result = await evaluateRecording({ kind: 'script', script: originalScript }, audioBase64, audioMimeType, level);
+  // Word-level comparison is done locally from the transcript - no extra request
+  const wordAlignment = alignWords(originalScript, result.transcript || '');
+  return { ...result, mistakes: buildMistakes(wordAlignment), wordAlignment };
+};
 
-    const evalResult = {
-      ...raw,
-      pronunciation: normalize(raw.pronunciation),
-      fluency: normalize(raw.fluency),
-      intonation: normalize(raw.intonation),
-      vocabulary: normalize(raw.vocabulary),
-      grammar: normalize(raw.grammar),
-      taskFulfillment: normalize(raw.taskFulfillment),
-    };
+/**
+ * Grade a free answer to a question (placement test). There is no script, so no word alignment.
+ */
+export const evaluateDescription = async (question: string, audioBase64: string, audioMimeType: string, level: CEFRLevel): Promise<EvaluationResult> => {
+  const result = await evaluateRecording({ kind: 'description', question }, audioBase64, audioMimeType, level);
+  return { ...result, mistakes: [], wordAlignment: [] };
+};
 
-    const avg = (evalResult.pronunciation + evalResult.fluency + evalResult.intonation + evalResult.vocabulary + evalResult.grammar + evalResult.taskFulfillment) / 6;
-    const score = normalize(avg);
-    return { ...evalResult, score, perceivedLevel: level, keyVocabulary: [], mistakes: [] };
+/**
+ * Fill in missing IPA / translation / emoji for hand-written vocabulary.
+ * Fields the teacher already typed are never overwritten.
+ */
+export const completeVocabulary = async (items: VocabularyItem[], observer?: CallObserver): Promise<VocabularyItem[]> => {
+  const incomplete = items.filter(v => v.word.trim() && (!v.ipa.trim() || !v.translation.trim() || !v.icon.trim()));
+  if (incomplete.length === 0) return items;
+  const filled = await getLanguageProvider().completeVocabulary(incomplete.map(v => v.word.trim()), observer);
+  return items.map(v => {
+    const match = filled.find(f => f.word?.toLowerCase() === v.word.trim().toLowerCase());
+    if (!match) return v;
+    return {
+      ...v,
+      ipa: v.ipa.trim() || (match.ipa || '').replace(/\//g, ''),
+      translation: v.translation.trim() || match.translation || '',
+      icon: v.icon.trim() || match.icon || '',
+    };
   });
 };
-
-export function decode(base64: string) {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-  return bytes;
-}
-
-export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-  }
-  return buffer;
-}
@@ -0,0 +1,133 @@
+import { CEFRLevel } from "../types";
+import { LEVEL_WORD_LIMITS } from "./prompts";
+import { countWords } from "./scriptAlignment";
+import type { CallObserver } from "./providers/aiProvider";
+
+// ========================================
+// Generation Progress - observable steps of building a lesson
+// ========================================
+// handleGenerate runs each step through the tracker; the tracker turns the
+// provider's CallObserver callbacks (model tried, text streamed so far) into
+// a state object the GENERATING screen renders.
+
+export type GenerationStepId = 'image' | 'script' | 'vocab' | 'audio';
+export type StepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface GenerationStep {
+  id: GenerationStepId;
+  status: StepStatus;
+  model?: string;               // Last model the fallback chain tried
+  progress: number | null;      // 0..1, null = no progress signal (show an indeterminate bar)
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface ScriptPreview {
+  intro: string;
+  points: string[];
+  conclusion: string;
+}
+
+export interface GenerationState {
+  steps: GenerationStep[];
+  script: ScriptPreview;        // Script text streamed so far
+}
+
+export const GENERATION_STEPS: GenerationStepId[] = ['image', 'script', 'vocab', 'audio'];
+
+export const GENERATION_STEP_LABELS: Record<GenerationStepId, string> = {
+  image: 'Vẽ tranh minh họa',
+  script: 'Viết bài nói',
+  vocab: 'Chuẩn bị từ vựng',
+  audio: 'Thu giọng đọc mẫu',
+};
+
+const EMPTY_SCRIPT: ScriptPreview = { intro: '', points: [], conclusion: '' };
+
+// Streamed text never reaches 100% - the answer still has to pass validation
+const MAX_STREAM_PROGRESS = 0.95;
+
+/**
+ * Decode a JSON string body that may be cut off mid-escape
+ */
+function decodeJsonString(raw: string): string {
+  const complete = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${complete}"`);
+  } catch {
+    return complete;
+  }
+}
+
+/**
+ * Pull intro / points / conclusion out of a partial script JSON such as
+ * `{"intro": "Hello! Today I", ...`. Values still being written are included.
+ */
+export function previewScript(partialJson: string): ScriptPreview {
+  const preview: ScriptPreview = { intro: '', points: [], conclusion: '' };
+  const containers: ('object' | 'array')[] = [];
+  let expectKey = false;
+  let key = '';
+
+  for (let i = 0; i < partialJson.length; i++) {
+    const c = partialJson[i];
+    if (c === '{') { containers.push('object'); expectKey = true; }
+    else if (c === '[') { containers.push('array'); expectKey = false; }
+    else if (c === '}' || c === ']') containers.pop();
+    else if (c === ',') expectKey = containers[containers.length - 1] === 'object';
+    else if (c === ':') expectKey = false;
+    else if (c === '"') {
+      let end = i + 1;
+      while (end < partialJson.length && partialJson[end] !== '"') end += partialJson[end] === '\\' ? 2 : 1;
+      const value = decodeJsonString(partialJson.slice(i + 1, Math.min(end, partialJson.length)));
+      // Only top-level fields; the vocab objects one level down have their own keys
+      if (expectKey) key = containers.length === 1 ? value : '';
+      else if (key === 'intro' || key === 'conclusion') preview[key] = value;
+      else if (key === 'points' && containers.length === 2) preview.points.push(value);
+      i = end;
+    }
+  }
+  return preview;
+}
+
+export interface GenerationTracker {
+  run<T>(id: GenerationStepId, task: (observer: CallObserver) => Promise<T>): Promise<T>;
+}
+
+export function createGenerationTracker(level: CEFRLevel, onChange: (state: GenerationState) => void): GenerationTracker {
+  const { min, max } = LEVEL_WORD_LIMITS[level];
+  const expectedWords = (min + max) / 2;
+  let state: GenerationState = {
+    steps: GENERATION_STEPS.map(id => ({ id, status: 'pending', progress: null })),
+    script: EMPTY_SCRIPT,
+  };
+
+  const update = (id: GenerationStepId, changes: Partial<GenerationStep>, script = state.script) => {
+    state = { script, steps: state.steps.map(s => (s.id === id ? { ...s, ...changes } : s)) };
+    onChange(state);
+  };
+
+  const streamScript = (text: string) => {
+    const script = previewScript(text);
+    const words = countWords(`${script.intro} ${script.points.join(' ')} ${script.conclusion}`);
+    update('script', { progress: Math.min(MAX_STREAM_PROGRESS, words / expectedWords) }, script);
+  };
+
+  onChange(state);
+  return {
+    run: async (id, task) => {
+      update(id, { status: 'running', progress: null, startedAt: Date.now(), finishedAt: undefined });
+      try {
+        const result = await task({
+          onModel: model => update(id, { model }),
+          onText: id === 'script' ? streamScript : undefined,
+        });
+        update(id, { status: 'done', progress: 1, finishedAt: Date.now() });
+        return result;
+      } catch (err) {
+        update(id, { status: 'failed', finishedAt: Date.now() });
+        throw err;
+      }
+    },
+  };
+}
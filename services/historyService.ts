@@ -0,0 +1,38 @@
+import { PracticeAttempt, PresentationData, EvaluationResult } from "../types";
+import { STORES, putRecord, getAllByIndex, deleteRecord } from "./db";
+
+// ========================================
+// Practice History - every evaluated attempt, kept in IndexedDB
+// ========================================
+
+export const saveAttempt = async (profileId: string, presentation: PresentationData, result: EvaluationResult, recording: Blob): Promise<PracticeAttempt> => {
+  const attempt: PracticeAttempt = {
+    id: crypto.randomUUID(),
+    profileId,
+    createdAt: Date.now(),
+    theme: presentation.theme,
+    level: presentation.level,
+    presentation,
+    result,
+    recording,
+  };
+  await putRecord(STORES.attempts, attempt);
+  return attempt;
+};
+
+/**
+ * All attempts of one learner, oldest first (the order the trend charts plot them in)
+ */
+export const listAttempts = async (profileId: string): Promise<PracticeAttempt[]> => {
+  const attempts = await getAllByIndex<PracticeAttempt>(STORES.attempts, 'profileId', profileId);
+  return attempts.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteAttempt = async (id: string): Promise<void> => {
+  await deleteRecord(STORES.attempts, id);
+};
+
+export const deleteAttemptsForProfile = async (profileId: string): Promise<void> => {
+  const attempts = await getAllByIndex<PracticeAttempt>(STORES.attempts, 'profileId', profileId);
+  await Promise.all(attempts.map(a => deleteRecord(STORES.attempts, a.id)));
+};
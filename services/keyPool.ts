@@ -0,0 +1,111 @@
+import type { QuotaExceededError } from "./errors";
+import { nextPacificMidnight } from "./usageLedger";
+
+// ========================================
+// API Key Pool - several Gemini keys shared by one classroom
+// ========================================
+// Each free-tier key has its own 10 RPM / 250 RPD. The API client spreads
+// requests across the keys and parks a key that answered 429 until its
+// cooldown ends; health is persisted so a reload does not hammer a parked key.
+
+export type KeyStatus = 'ok' | 'cooling' | 'invalid';
+
+export interface KeyHealth {
+  status: KeyStatus;
+  cooldownUntil?: number;       // Only for 'cooling'
+  lastError?: string;
+}
+
+const KEYS_KEY = 'speakpro_api_keys';
+const LEGACY_KEY = 'speakpro_api_key';
+const HEALTH_KEY = 'speakpro_key_health';
+
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Short label for a key - safe to show and to store in the usage ledger
+ */
+export const keyId = (key: string) => `…${key.slice(-6)}`;
+
+/**
+ * Keys saved in Settings, in the order the teacher entered them
+ */
+export function loadSavedApiKeys(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(KEYS_KEY) || '[]');
+    if (Array.isArray(parsed) && parsed.length > 0) {
+      return parsed.filter((k): k is string => typeof k === 'string' && !!k.trim()).map(k => k.trim());
+    }
+  } catch {
+    // Fall through to the single key saved by older versions
+  }
+  const legacy = localStorage.getItem(LEGACY_KEY)?.trim();
+  return legacy ? [legacy] : [];
+}
+
+/**
+ * Keys the API client may use. Following AI_INSTRUCTIONS.md: "Ưu tiên sử dụng key từ localStorage",
+ * falling back to the environment key in dev (from vite.config.ts)
+ */
+export function loadApiKeys(): string[] {
+  const saved = loadSavedApiKeys();
+  if (saved.length > 0) return saved;
+  const envKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+  return envKey && envKey.trim() ? [envKey.trim()] : [];
+}
+
+export function saveApiKeys(keys: string[]): void {
+  const unique = Array.from(new Set(keys.map(k => k.trim()).filter(Boolean)));
+  localStorage.setItem(KEYS_KEY, JSON.stringify(unique));
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+function loadHealth(): Record<string, KeyHealth> {
+  try {
+    return JSON.parse(localStorage.getItem(HEALTH_KEY) || '{}') || {};
+  } catch {
+    return {};
+  }
+}
+
+function setHealth(key: string, health: KeyHealth): void {
+  const all = loadHealth();
+  all[keyId(key)] = health;
+  localStorage.setItem(HEALTH_KEY, JSON.stringify(all));
+}
+
+export function getKeyHealth(key: string): KeyHealth {
+  const health = loadHealth()[keyId(key)];
+  if (!health) return { status: 'ok' };
+  if (health.status === 'cooling' && (health.cooldownUntil || 0) <= Date.now()) return { status: 'ok' };
+  return health;
+}
+
+/**
+ * Forget a key's cooldown or invalid mark (e.g. after enabling billing or fixing a typo)
+ */
+export function resetKeyHealth(key: string): void {
+  const all = loadHealth();
+  delete all[keyId(key)];
+  localStorage.setItem(HEALTH_KEY, JSON.stringify(all));
+}
+
+export const isKeyUsable = (key: string) => getKeyHealth(key).status === 'ok';
+
+export function markKeyOk(key: string): void {
+  if (loadHealth()[keyId(key)]) setHealth(key, { status: 'ok' });
+}
+
+/**
+ * Park a key after a 429. A used-up daily quota rests until it resets at Pacific
+ * midnight - the server's short retry delay only applies to per-minute limits.
+ */
+export function markKeyRateLimited(key: string, error: QuotaExceededError): void {
+  const now = Date.now();
+  const cooldownUntil = error.daily ? nextPacificMidnight(now) : now + (error.retryAfterMs ?? DEFAULT_COOLDOWN_MS);
+  setHealth(key, { status: 'cooling', cooldownUntil, lastError: 'Hết lượt (429)' });
+}
+
+export function markKeyInvalid(key: string): void {
+  setHealth(key, { status: 'invalid', lastError: 'Key không hợp lệ' });
+}
@@ -0,0 +1,87 @@
+import { CEFRLevel, PresentationData, SavedLesson, CachedAudio } from "../types";
+import { STORES, putRecord, getRecord, getAllRecords, deleteRecord } from "./db";
+
+// ========================================
+// Lesson Cache - reuse generated lessons without spending quota
+// ========================================
+// A lesson costs 2+ requests (image + script) plus TTS against a 250 RPD free
+// tier, so every generated lesson is kept and served again for the same theme
+// and level - also when the device is offline.
+
+// The voice, the picture and the vocabulary of a new lesson arrive independently;
+// each write reads the record first, so they run one after another.
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(write: () => Promise<T>): Promise<T> {
+  const next = pendingWrite.then(write);
+  pendingWrite = next.catch(() => undefined);
+  return next;
+}
+
+export const lessonKey = (theme: string, level: CEFRLevel) => `${level}:${theme.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+
+export const getCachedLesson = async (theme: string, level: CEFRLevel): Promise<SavedLesson | undefined> => {
+  return getRecord<SavedLesson>(STORES.lessons, lessonKey(theme, level));
+};
+
+export const saveLesson = (presentation: PresentationData): Promise<SavedLesson> => serialized(async () => {
+  const now = Date.now();
+  const id = lessonKey(presentation.theme, presentation.level);
+  const existing = await getRecord<SavedLesson>(STORES.lessons, id);
+  const lesson: SavedLesson = {
+    id,
+    title: existing?.title || presentation.theme,
+    theme: presentation.theme,
+    level: presentation.level,
+    presentation,
+    teacherAudio: undefined, // New script means the old recording no longer matches
+    pinned: existing?.pinned || false,
+    createdAt: existing?.createdAt || now,
+    lastUsedAt: now,
+  };
+  await putRecord(STORES.lessons, lesson);
+  return lesson;
+});
+
+/**
+ * Attach the decoded teacher voice so the lesson can be played back offline
+ */
+export const saveLessonAudio = (id: string, buffer: AudioBuffer, voiceKey?: string): Promise<void> => serialized(async () => {
+  const lesson = await getRecord<SavedLesson>(STORES.lessons, id);
+  if (!lesson) return;
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch).slice());
+  await putRecord(STORES.lessons, { ...lesson, teacherAudio: { sampleRate: buffer.sampleRate, channels, voiceKey } });
+});
+
+/**
+ * Add the picture or completed vocabulary to a saved lesson - the script and its recording stay valid
+ */
+export const updateLessonContent = (id: string, changes: Partial<Pick<PresentationData, 'imageUri' | 'lessonVocab'>>): Promise<void> => serialized(async () => {
+  const lesson = await getRecord<SavedLesson>(STORES.lessons, id);
+  if (!lesson) return;
+  await putRecord(STORES.lessons, { ...lesson, presentation: { ...lesson.presentation, ...changes } });
+});
+
+export const toAudioBuffer = (audio: CachedAudio): AudioBuffer => {
+  const buffer = new AudioBuffer({ length: Math.max(1, audio.channels[0]?.length || 0), numberOfChannels: audio.channels.length || 1, sampleRate: audio.sampleRate });
+  audio.channels.forEach((data, ch) => buffer.copyToChannel(data, ch));
+  return buffer;
+};
+
+/**
+ * Library order: pinned first, then most recently used
+ */
+export const listLessons = async (): Promise<SavedLesson[]> => {
+  const lessons = await getAllRecords<SavedLesson>(STORES.lessons);
+  return lessons.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.lastUsedAt - a.lastUsedAt);
+};
+
+export const updateLesson = (id: string, changes: Partial<Pick<SavedLesson, 'title' | 'pinned' | 'lastUsedAt'>>): Promise<void> => serialized(async () => {
+  const lesson = await getRecord<SavedLesson>(STORES.lessons, id);
+  if (!lesson) return;
+  await putRecord(STORES.lessons, { ...lesson, ...changes });
+});
+
+export const deleteLesson = async (id: string): Promise<void> => {
+  await deleteRecord(STORES.lessons, id);
+};
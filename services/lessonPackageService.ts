@@ -0,0 +1,171 @@
+import { CEFRLevel, PresentationData, SavedLesson, VocabularyItem } from "../types";
+import { CEFR_LEVELS } from "../constants";
+import { encodeWav, blobToBase64, decodeRecording } from "./audioUtils";
+import { getCachedLesson, saveLesson, saveLessonAudio, updateLesson, toAudioBuffer } from "./lessonCacheService";
+
+// ========================================
+// Lesson Packages - share lessons between teachers as one file
+// ========================================
+// A package is a single JSON file: image and teacher voice are embedded as
+// data URIs, so it can be sent over Zalo/email and opened fully offline.
+
+export const PACKAGE_FORMAT = 'speakpro-lesson';
+export const PACKAGE_VERSION = 1;
+export const PACKAGE_EXTENSION = '.speakpro.json';
+
+export interface LessonPackage {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  exportedAt: number;
+  metadata: {
+    title: string;
+    theme: string;
+    level: CEFRLevel;
+  };
+  presentation: {
+    intro: string;
+    points: string[];
+    conclusion: string;
+    lessonVocab: VocabularyItem[];
+  };
+  image: string;                // data URI, empty when the lesson has no picture
+  teacherAudio?: string;        // data:audio/wav;base64,...
+}
+
+// ========================================
+// Export
+// ========================================
+
+export const exportLessonPackage = async (lesson: SavedLesson): Promise<Blob> => {
+  const { presentation } = lesson;
+  const pkg: LessonPackage = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    exportedAt: Date.now(),
+    metadata: { title: lesson.title, theme: lesson.theme, level: lesson.level },
+    presentation: {
+      intro: presentation.intro,
+      points: presentation.points,
+      conclusion: presentation.conclusion,
+      lessonVocab: presentation.lessonVocab || [],
+    },
+    image: presentation.imageUri || '',
+  };
+  if (lesson.teacherAudio) {
+    pkg.teacherAudio = `data:audio/wav;base64,${await blobToBase64(encodeWav(toAudioBuffer(lesson.teacherAudio)))}`;
+  }
+  return new Blob([JSON.stringify(pkg)], { type: 'application/json' });
+};
+
+export const packageFileName = (lesson: SavedLesson) =>
+  `${lesson.title.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'lesson'}-${lesson.level}${PACKAGE_EXTENSION}`;
+
+// ========================================
+// Validation
+// ========================================
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+/**
+ * Check an already-parsed package. Returns every problem found (in Vietnamese,
+ * shown to the teacher as-is) so a broken file can be fixed in one go.
+ */
+export function validateLessonPackage(data: any): string[] {
+  if (!data || typeof data !== 'object') return ['File không phải là gói bài học.'];
+  if (data.format !== PACKAGE_FORMAT) return ['File không phải là gói bài học Speakpro.'];
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return ['Gói bài học không ghi rõ phiên bản.'];
+  }
+  if (data.version > PACKAGE_VERSION) {
+    return [`Gói bài học được tạo bằng phiên bản mới hơn (v${data.version}). Hãy cập nhật Speakpro để mở bài này.`];
+  }
+
+  const errors: string[] = [];
+  const { metadata, presentation } = data;
+  if (!metadata || !isString(metadata.theme) || !metadata.theme.trim()) errors.push('Thiếu chủ đề bài học.');
+  if (!metadata || !CEFR_LEVELS.includes(metadata.level)) errors.push(`Cấp độ "${metadata?.level}" không hợp lệ.`);
+  if (metadata && metadata.title !== undefined && !isString(metadata.title)) errors.push('Tên bài học không hợp lệ.');
+
+  if (!presentation || typeof presentation !== 'object') {
+    errors.push('Thiếu nội dung bài thuyết trình.');
+  } else {
+    if (!isString(presentation.intro) || !presentation.intro.trim()) errors.push('Thiếu phần mở bài.');
+    if (!Array.isArray(presentation.points) || presentation.points.length === 0 || !presentation.points.every(isString)) {
+      errors.push('Phần ý chính phải là danh sách câu.');
+    }
+    if (!isString(presentation.conclusion) || !presentation.conclusion.trim()) errors.push('Thiếu phần kết bài.');
+    const vocab = presentation.lessonVocab;
+    if (vocab !== undefined && (!Array.isArray(vocab) || !vocab.every((v: any) => v && isString(v.word) && isString(v.ipa) && isString(v.translation) && isString(v.icon)))) {
+      errors.push('Danh sách từ vựng không đúng định dạng.');
+    }
+  }
+
+  if (!isString(data.image) || (data.image && !data.image.startsWith('data:image/'))) errors.push('Ảnh minh hoạ không đúng định dạng.');
+  if (data.teacherAudio !== undefined && (!isString(data.teacherAudio) || !data.teacherAudio.startsWith('data:audio/wav;base64,'))) {
+    errors.push('Giọng đọc mẫu không đúng định dạng WAV.');
+  }
+  return errors;
+}
+
+// ========================================
+// Import
+// ========================================
+
+const dataUriToBlob = (uri: string): Blob => {
+  const [header, base64] = uri.split(',');
+  const mimeType = header.slice(5).split(';')[0];
+  return new Blob([Uint8Array.from(atob(base64), c => c.charCodeAt(0))], { type: mimeType });
+};
+
+/**
+ * Decode at the WAV's own sample rate so the stored voice is not resampled
+ */
+const decodeWav = async (blob: Blob): Promise<AudioBuffer> => {
+  const sampleRate = new DataView(await blob.slice(24, 28).arrayBuffer()).getUint32(0, true);
+  return decodeRecording(blob, new OfflineAudioContext(1, 1, sampleRate || 24000));
+};
+
+/**
+ * Read a package file into the lesson library. Lessons are keyed by theme and
+ * level, so a package matching a saved lesson replaces it - only after
+ * `confirmReplace` agrees. Returns null when the import was cancelled.
+ */
+export const importLessonPackage = async (file: File, confirmReplace: (existing: SavedLesson) => boolean): Promise<SavedLesson | null> => {
+  let data: any;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`"${file.name}" không phải file JSON hợp lệ.`);
+  }
+
+  const errors = validateLessonPackage(data);
+  if (errors.length > 0) throw new Error(`Không mở được "${file.name}":\n• ${errors.join('\n• ')}`);
+
+  const pkg = data as LessonPackage;
+  const { intro, points, conclusion } = pkg.presentation;
+  const presentation: PresentationData = {
+    theme: pkg.metadata.theme.trim(),
+    level: pkg.metadata.level,
+    imageUri: pkg.image,
+    intro, points, conclusion,
+    script: `${intro} ${points.join(' ')} ${conclusion}`,
+    lessonVocab: pkg.presentation.lessonVocab || [],
+  };
+
+  const existing = await getCachedLesson(presentation.theme, presentation.level);
+  if (existing && !confirmReplace(existing)) return null;
+
+  const lesson = await saveLesson(presentation);
+  const title = pkg.metadata.title?.trim();
+  if (title) await updateLesson(lesson.id, { title });
+
+  if (pkg.teacherAudio) {
+    try {
+      await saveLessonAudio(lesson.id, await decodeWav(dataUriToBlob(pkg.teacherAudio)));
+    } catch (e) {
+      // The lesson is still usable - the voice is regenerated when it is opened
+      console.warn('[Package] Teacher audio could not be decoded', e);
+    }
+  }
+  return { ...lesson, title: title || lesson.title };
+};
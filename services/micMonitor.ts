@@ -0,0 +1,87 @@
+// ========================================
+// Mic Monitor - live input level while recording
+// ========================================
+// Children often record silence (mic muted, too far away) or shout into the
+// mic until it clips. An AnalyserNode on the live stream lets the UI warn
+// them straight away and stop the recording once they have finished talking.
+
+export type MicWarning = 'quiet' | 'clipping' | null;
+
+export interface MicLevel {
+  level: number;                // 0-1, scaled for the meter
+  warning: MicWarning;
+}
+
+export interface MicMonitorOptions {
+  onLevel: (level: MicLevel) => void;
+  onSilence?: () => void;       // Fired once after speech followed by `silenceMs` of quiet
+  silenceMs: number;            // 0 disables auto-stop
+}
+
+const SILENCE_STOP_KEY = 'speakpro_silence_stop_seconds';
+export const DEFAULT_SILENCE_STOP_SECONDS = 4;
+
+const POLL_MS = 50;
+const SPEECH_RMS = 0.02;        // Above this the frame counts as voice
+const QUIET_AFTER_MS = 2500;    // No voice for this long from the start -> "too quiet"
+const CLIP_PEAK = 0.98;
+const CLIP_HOLD_MS = 1500;      // Keep the clipping warning visible this long
+
+export function loadSilenceStopSeconds(): number {
+  const saved = Number(localStorage.getItem(SILENCE_STOP_KEY));
+  return localStorage.getItem(SILENCE_STOP_KEY) !== null && Number.isFinite(saved) ? saved : DEFAULT_SILENCE_STOP_SECONDS;
+}
+
+export function saveSilenceStopSeconds(seconds: number): void {
+  localStorage.setItem(SILENCE_STOP_KEY, String(Math.max(0, seconds)));
+}
+
+/**
+ * Start polling the stream. Returns a stop function that releases the audio graph.
+ */
+export function startMicMonitor(stream: MediaStream, { onLevel, onSilence, silenceMs }: MicMonitorOptions): () => void {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  const startedAt = Date.now();
+  let lastVoiceAt = 0;
+  let lastClipAt = -Infinity;
+  let silenceFired = false;
+
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const v = Math.abs(samples[i]);
+      sum += v * v;
+      if (v > peak) peak = v;
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    const now = Date.now();
+
+    if (rms >= SPEECH_RMS) lastVoiceAt = now;
+    if (peak >= CLIP_PEAK) lastClipAt = now;
+
+    const warning: MicWarning = now - lastClipAt < CLIP_HOLD_MS
+      ? 'clipping'
+      : now - Math.max(lastVoiceAt, startedAt) > QUIET_AFTER_MS ? 'quiet' : null;
+    // sqrt spreads quiet speech over more of the bar
+    onLevel({ level: Math.min(1, Math.sqrt(rms * 8)), warning });
+
+    if (onSilence && silenceMs > 0 && lastVoiceAt > 0 && !silenceFired && now - lastVoiceAt >= silenceMs) {
+      silenceFired = true;
+      onSilence();
+    }
+  }, POLL_MS);
+
+  return () => {
+    clearInterval(timer);
+    source.disconnect();
+    ctx.close().catch(() => undefined);
+  };
+}
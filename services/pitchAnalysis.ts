@@ -0,0 +1,87 @@
+// ========================================
+// Waveform & Pitch - data for the review-step comparison viewer
+// ========================================
+// Pitch is estimated with plain autocorrelation on audio resampled to 8 kHz,
+// which is accurate enough for children's voices (~200-450 Hz) and fast
+// enough to run on the main thread for a few minutes of speech.
+
+export interface PitchPoint {
+  time: number;                 // Seconds
+  hz: number | null;            // null = unvoiced / silence
+}
+
+export const PITCH_MIN_HZ = 75;
+export const PITCH_MAX_HZ = 500;
+
+const PITCH_SAMPLE_RATE = 8000;
+const PITCH_FRAME_MS = 40;
+const PITCH_HOP_MS = 20;
+const PITCH_MIN_RMS = 0.01;
+const PITCH_MIN_CORRELATION = 0.5;
+
+/**
+ * Peak amplitude per bin, 0-1, for drawing the waveform
+ */
+export function computeWaveformPeaks(buffer: AudioBuffer, bins: number): number[] {
+  const data = buffer.getChannelData(0);
+  const binSize = Math.max(1, Math.floor(data.length / bins));
+  const peaks: number[] = [];
+  for (let b = 0; b < bins; b++) {
+    let peak = 0;
+    const end = Math.min(data.length, (b + 1) * binSize);
+    for (let i = b * binSize; i < end; i++) {
+      const v = Math.abs(data[i]);
+      if (v > peak) peak = v;
+    }
+    peaks.push(Math.min(1, peak));
+  }
+  return peaks;
+}
+
+async function resampleMono(buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> {
+  const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+  const ctx = new OfflineAudioContext(1, length, sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start(0);
+  return (await ctx.startRendering()).getChannelData(0);
+}
+
+export async function computePitchContour(buffer: AudioBuffer): Promise<PitchPoint[]> {
+  const data = await resampleMono(buffer, PITCH_SAMPLE_RATE);
+  const frameSize = Math.floor((PITCH_SAMPLE_RATE * PITCH_FRAME_MS) / 1000);
+  const hop = Math.floor((PITCH_SAMPLE_RATE * PITCH_HOP_MS) / 1000);
+  const minLag = Math.floor(PITCH_SAMPLE_RATE / PITCH_MAX_HZ);
+  const maxLag = Math.ceil(PITCH_SAMPLE_RATE / PITCH_MIN_HZ);
+
+  const points: PitchPoint[] = [];
+  for (let start = 0; start + frameSize + maxLag <= data.length; start += hop) {
+    const time = (start + frameSize / 2) / PITCH_SAMPLE_RATE;
+
+    let energy = 0;
+    for (let i = start; i < start + frameSize; i++) energy += data[i] * data[i];
+    if (Math.sqrt(energy / frameSize) < PITCH_MIN_RMS) {
+      points.push({ time, hz: null });
+      continue;
+    }
+
+    let bestLag = 0;
+    let bestCorrelation = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let sum = 0;
+      let lagEnergy = 0;
+      for (let i = start; i < start + frameSize; i++) {
+        sum += data[i] * data[i + lag];
+        lagEnergy += data[i + lag] * data[i + lag];
+      }
+      const correlation = sum / Math.sqrt(energy * lagEnergy || 1);
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestLag = lag;
+      }
+    }
+    points.push({ time, hz: bestCorrelation >= PITCH_MIN_CORRELATION ? PITCH_SAMPLE_RATE / bestLag : null });
+  }
+  return points;
+}
@@ -0,0 +1,117 @@
+import { CEFRLevel, EvaluationResult } from "../types";
+
+// ========================================
+// Placement Test - adaptive level recommendation
+// ========================================
+// The learner describes one graded picture per step. Passing moves up a level,
+// failing moves down, and the test stops once a pass sits right below a fail
+// (or the top/bottom is reached) - at most one picture per level.
+
+export interface PlacementItem {
+  level: CEFRLevel;
+  icon: string;                 // The "picture" - an emoji scene, no image request needed
+  prompt: string;               // English question shown to the learner
+  hint: string;                 // Vietnamese instruction for parents
+}
+
+export interface PlacementStep {
+  level: CEFRLevel;
+  score: number;
+  passed: boolean;
+}
+
+export interface PlacementRecommendation {
+  level: CEFRLevel;
+  confidence: number;           // 0-1
+}
+
+export const PLACEMENT_ITEMS: PlacementItem[] = [
+  {
+    level: 'Starters', icon: '🐱🔴⚽',
+    prompt: 'What can you see?',
+    hint: 'Bé nói tên con vật, đồ vật và màu sắc.',
+  },
+  {
+    level: 'Movers', icon: '👧🐶🌳',
+    prompt: 'What is the girl doing?',
+    hint: 'Bé kể bạn nhỏ đang làm gì trong tranh.',
+  },
+  {
+    level: 'Flyers', icon: '🏖️👨‍👩‍👧🍦',
+    prompt: 'Tell me about this family day out.',
+    hint: 'Bé tả cả nhà đang làm gì và cảm thấy thế nào.',
+  },
+  {
+    level: 'A1', icon: '⏰🥣🚌🏫',
+    prompt: 'Describe your morning routine.',
+    hint: 'Bé kể buổi sáng của mình từ lúc thức dậy đến khi tới trường.',
+  },
+  {
+    level: 'A2', icon: '🎂🎁🎈',
+    prompt: 'Tell me about your last birthday.',
+    hint: 'Bé kể lại sinh nhật vừa rồi (dùng thì quá khứ).',
+  },
+  {
+    level: 'B1', icon: '📱👦📚',
+    prompt: 'Should children have their own phones? Why?',
+    hint: 'Bé nêu ý kiến và giải thích lý do.',
+  },
+  {
+    level: 'B2', icon: '🌍🏭🌱',
+    prompt: 'How could our city become greener?',
+    hint: 'Bé đưa ra giải pháp và phân tích kết quả.',
+  },
+];
+
+const START_INDEX = PLACEMENT_ITEMS.findIndex(i => i.level === 'A1');
+
+// Longest possible walk: straight up to the top or straight down to the bottom
+export const MAX_PLACEMENT_STEPS = Math.max(PLACEMENT_ITEMS.length - START_INDEX, START_INDEX + 1);
+const PASS_SCORE = 6.5;
+
+// Fluency, grammar and task completion separate the levels far better than
+// pronunciation, which young learners often get right from imitation alone
+const PLACEMENT_WEIGHTS: Record<'pronunciation' | 'fluency' | 'intonation' | 'vocabulary' | 'grammar' | 'taskFulfillment', number> = {
+  pronunciation: 1, fluency: 2, intonation: 0.5, vocabulary: 1.5, grammar: 2, taskFulfillment: 2,
+};
+
+export function scorePlacementStep(level: CEFRLevel, result: EvaluationResult): PlacementStep {
+  const keys = Object.keys(PLACEMENT_WEIGHTS) as (keyof typeof PLACEMENT_WEIGHTS)[];
+  const totalWeight = keys.reduce((sum, k) => sum + PLACEMENT_WEIGHTS[k], 0);
+  const score = Math.round(keys.reduce((sum, k) => sum + result[k] * PLACEMENT_WEIGHTS[k], 0) / totalWeight * 10) / 10;
+  return { level, score, passed: score >= PASS_SCORE };
+}
+
+const indexOfLevel = (level: CEFRLevel) => PLACEMENT_ITEMS.findIndex(i => i.level === level);
+
+/**
+ * Next picture to show, or null when the test is finished
+ */
+export function nextPlacementItem(steps: PlacementStep[]): PlacementItem | null {
+  if (steps.length === 0) return PLACEMENT_ITEMS[START_INDEX];
+  const last = steps[steps.length - 1];
+  const next = indexOfLevel(last.level) + (last.passed ? 1 : -1);
+  if (next < 0 || next >= PLACEMENT_ITEMS.length) return null;
+  if (steps.some(s => s.level === PLACEMENT_ITEMS[next].level)) return null;
+  return PLACEMENT_ITEMS[next];
+}
+
+/**
+ * Highest passed level. Confidence grows when the result is bracketed by a
+ * fail just above it and when scores sit far from the pass mark.
+ */
+export function recommendLevel(steps: PlacementStep[]): PlacementRecommendation {
+  const passed = steps.filter(s => s.passed).map(s => indexOfLevel(s.level));
+  const best = passed.length > 0 ? Math.max(...passed) : 0;
+
+  const failedAbove = steps.some(s => !s.passed && indexOfLevel(s.level) === best + 1);
+  const atEdge = best === PLACEMENT_ITEMS.length - 1 || (passed.length === 0 && steps.some(s => indexOfLevel(s.level) === 0));
+  const bracketed = failedAbove || atEdge;
+
+  const margin = steps.length > 0
+    ? steps.reduce((sum, s) => sum + Math.min(1, Math.abs(s.score - PASS_SCORE) / 3), 0) / steps.length
+    : 0;
+  const confidence = Math.round(Math.min(1, (bracketed ? 0.5 : 0.25) + 0.5 * margin) * 100) / 100;
+
+  return { level: PLACEMENT_ITEMS[best].level, confidence };
+}
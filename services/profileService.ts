@@ -0,0 +1,64 @@
+import { LearnerProfile } from "../types";
+import { DEFAULT_VOICE } from "../constants";
+
+// ========================================
+// Learner Profiles - several children sharing one device
+// ========================================
+// Profiles are tiny and needed synchronously on first render, so they live in
+// localStorage next to the API key rather than in IndexedDB.
+
+const PROFILES_KEY = 'speakpro_profiles';
+const ACTIVE_PROFILE_KEY = 'speakpro_active_profile';
+
+// Records saved before profiles existed are attached to this profile
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILE_AVATARS = ['👦', '👧', '🧒', '🐱', '🐶', '🦊', '🐼', '🦁', '🐸', '🦄', '🚀', '⭐'];
+
+const createDefaultProfile = (): LearnerProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Leo',
+  avatar: '👦',
+  defaultLevel: 'Starters',
+  playbackSpeed: 1.0,
+  voice: DEFAULT_VOICE,
+});
+
+/**
+ * Load all profiles, creating the default one on first run
+ */
+export function loadProfiles(): LearnerProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const profiles = raw ? JSON.parse(raw) as LearnerProfile[] : [];
+    // Profiles saved before voice settings existed get the default voice
+    if (Array.isArray(profiles) && profiles.length > 0) return profiles.map(p => ({ ...p, voice: p.voice || DEFAULT_VOICE }));
+  } catch (e) {
+    console.warn('[Profiles] Corrupted profile list, starting fresh', e);
+  }
+  const profiles = [createDefaultProfile()];
+  saveProfiles(profiles);
+  return profiles;
+}
+
+export function saveProfiles(profiles: LearnerProfile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function getActiveProfileId(profiles: LearnerProfile[]): string {
+  const saved = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.some(p => p.id === saved) ? saved! : profiles[0].id;
+}
+
+export function setActiveProfileId(id: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+export function createProfile(name: string): LearnerProfile {
+  return {
+    ...createDefaultProfile(),
+    id: crypto.randomUUID(),
+    name,
+    avatar: PROFILE_AVATARS[Math.floor(Math.random() * PROFILE_AVATARS.length)],
+  };
+}
@@ -0,0 +1,188 @@
+import { CEFRLevel, VoiceAccent, VoicePace } from "../types";
+import type { EvaluationTarget } from "./providers/aiProvider";
+
+// ========================================
+// Prompts - shared by every AI provider
+// ========================================
+
+export const LEVEL_CONSTRAINTS: Record<CEFRLevel, string> = {
+  'Starters': 'Strictly 20 words. Grammar: Extremely simple nouns/verbs. Example: "I see a cat. It is red."',
+  'Movers': 'Strictly 50 words. Grammar: Simple present, clear sentences.',
+  'Flyers': 'Strictly 80 words. Grammar: Present continuous, basic conjunctions.',
+  'A1': '100-120 words. Grammar: Basic daily routine, simple compound sentences.',
+  'A2': '150-180 words. Grammar: Past simple, linking words (because, so).',
+  'B1': '200-250 words. Grammar: Relative clauses, expressing opinions.',
+  'B2': '250-300 words. Grammar: Passive voice, conditionals.',
+  'C1': '300-350 words. Grammar: Inversion for emphasis (e.g. "Not only... but also", "Rarely do we..."), cleft sentences, hedging (it could be argued, tends to, arguably). Clear opinion with a counter-argument.',
+  'C2': '350-400 words. Grammar: Full range used naturally - inversion, mixed conditionals, nominalisation, nuanced hedging and stance markers. Idiomatic, precise vocabulary and a well-signposted argument.'
+};
+
+/**
+ * Numeric word-count bounds matching LEVEL_CONSTRAINTS. "Strictly N words"
+ * levels get about 25% slack either way for hand-written scripts.
+ */
+export const LEVEL_WORD_LIMITS: Record<CEFRLevel, { min: number; max: number }> = {
+  'Starters': { min: 15, max: 25 },
+  'Movers': { min: 40, max: 60 },
+  'Flyers': { min: 65, max: 95 },
+  'A1': { min: 100, max: 120 },
+  'A2': { min: 150, max: 180 },
+  'B1': { min: 200, max: 250 },
+  'B2': { min: 250, max: 300 },
+  'C1': { min: 300, max: 350 },
+  'C2': { min: 350, max: 400 }
+};
+
+/**
+ * Stricter marking for the advanced levels. Starters to B2 keep the original
+ * child-friendly instructions, so existing learners are scored as before.
+ */
+const ADVANCED_RUBRICS: Partial<Record<CEFRLevel, string>> = {
+  'C1': 'Mark like a demanding examiner. Fluency: few hesitations, natural chunking. Grammar: inversion and hedging used accurately, not just read. Intonation: stress shows contrast and emphasis. Vocabulary: precise collocations. Task: the argument is clear and balanced.',
+  'C2': 'Mark like a demanding examiner at near-native standard. Expect effortless delivery, precise stress and intonation for nuance, and flawless control of complex structures. Scores of 9-10 need speech that sounds natural, not recited.'
+};
+
+export const buildIllustrationPrompt = (theme: string) =>
+  `A vibrant, very colorful, high-quality 3D Pixar style illustration for children: ${theme}. Bright saturated colors, happy characters, 16:9 ratio.`;
+
+/**
+ * Script prompt - with an image the model describes the picture, without one it works from the theme only
+ */
+export const buildScriptPrompt = (theme: string, level: CEFRLevel, hasImage: boolean) => hasImage
+  ? `Create an English presentation script for a child at ${level} level about this image. 
+               Theme: "${theme}".
+               CONSTRAINTS: ${LEVEL_CONSTRAINTS[level]}.
+               Return JSON with "intro", "points" (array), "conclusion", and "lessonVocab" (array of {word, ipa, translation, icon}).
+               MANDATORY: "translation" MUST BE IN VIETNAMESE. "icon" is a single emoji.`
+  : `Create an English presentation script for a child at ${level} level about "${theme}". 
+               CONSTRAINTS: ${LEVEL_CONSTRAINTS[level]}.
+               Return JSON with "intro", "points" (array), "conclusion", and "lessonVocab" (array of {word, ipa, translation, icon}).
+               MANDATORY: "translation" MUST BE IN VIETNAMESE. "icon" is a single emoji.`;
+
+const buildScriptEvaluationPrompt = (originalScript: string, level: CEFRLevel) => {
+  const rubric = ADVANCED_RUBRICS[level];
+  return `Evaluate this child's English presentation. 
+                   Expected script: "${originalScript}"
+                   Level: ${level}.${rubric ? `
+                   RUBRIC FOR THIS LEVEL: ${rubric}` : ''}
+                   
+                   INSTRUCTIONS:
+                   1. Listen carefully to the audio. ${rubric ? 'It is a student speaking, so allow for some background noise.' : 'It is a child speaking, so allow for some hesitation or background noise.'}
+                   2. Scale all criteria from 0 to 10.
+                   3. If you can hear the child trying to speak parts of the script, DO NOT give 0. Give points based on effort and accuracy.
+                   4. ONLY give 0 if the audio is completely silent, or contains NO English words at all.
+                   5. Provide encouraging feedback in VIETNAMESE.
+                   
+                   Return JSON.`;
+};
+
+/**
+ * Free answer with no script - the child's own words are graded against the level, not against a model answer
+ */
+const buildDescriptionEvaluationPrompt = (question: string, level: CEFRLevel) =>
+  `Evaluate this child's spoken English answer to a picture question.
+                   Question: "${question}"
+                   Level being tested: ${level}.
+                   
+                   There is NO script: the child answers in their own words, so judge only what they actually say.
+                   INSTRUCTIONS:
+                   1. Listen carefully to the audio. It is a child speaking, so allow for some hesitation or background noise.
+                   2. Write exactly what the child says in "transcript".
+                   3. Scale all criteria from 0 to 10 against what a ${level} learner should manage. "vocabulary" and "grammar" judge the range and accuracy the child produced; "taskFulfillment" judges how well the answer addresses the question.
+                   4. ONLY give 0 if the audio is completely silent, or contains NO English words at all.
+                   5. Provide encouraging feedback in VIETNAMESE.
+                   
+                   Return JSON.`;
+
+export const buildEvaluationPrompt = (target: EvaluationTarget, level: CEFRLevel) => target.kind === 'script'
+  ? buildScriptEvaluationPrompt(target.script, level)
+  : buildDescriptionEvaluationPrompt(target.question, level);
+
+export const buildVocabularyPrompt = (words: string[]) =>
+  `For each English word below, give its IPA transcription, its VIETNAMESE translation and one emoji that pictures it.
+               Words: ${words.map(w => `"${w}"`).join(', ')}.
+               Return JSON with "items" (array of {word, ipa, translation, icon}) in the same order.
+               MANDATORY: "translation" MUST BE IN VIETNAMESE. "icon" is a single emoji. "ipa" has no slashes.`;
+
+/**
+ * Appended to the original prompt when the previous answer failed validation
+ */
+export const buildRepairPrompt = (previous: unknown, problems: string[]) =>
+  `Your previous answer was rejected by the app:
+               ${problems.map(p => `- ${p}`).join('\n               ')}
+               Previous answer: ${JSON.stringify(previous)}
+               Return the corrected JSON only, with the same fields, fixing every problem above.`;
+
+// Resolved pace - 'level' has already been replaced by the learner's level
+export type SpeechPace = Exclude<VoicePace, 'level'>;
+
+export const LEVEL_SPEECH_PACE: Record<CEFRLevel, SpeechPace> = {
+  'Starters': 'slow', 'Movers': 'slow', 'Flyers': 'slow',
+  'A1': 'normal', 'A2': 'normal', 'B1': 'normal',
+  'B2': 'natural', 'C1': 'natural', 'C2': 'natural'
+};
+
+const PACE_STYLES: Record<SpeechPace, string> = {
+  slow: 'Slow, clear, friendly English for kids',
+  normal: 'Clear, friendly English at a steady classroom pace',
+  natural: 'Natural, fluent English at normal conversational speed',
+};
+
+const ACCENT_STYLES: Record<VoiceAccent, string> = {
+  american: 'with a General American accent',
+  british: 'with a standard British (RP) accent',
+};
+
+export const buildSpeechPrompt = (text: string, accent: VoiceAccent, pace: SpeechPace) =>
+  `${PACE_STYLES[pace]}, ${ACCENT_STYLES[accent]}: ${text}`;
+
+// ========================================
+// Response Schemas - plain JSON Schema, converted per provider
+// ========================================
+
+export const SCRIPT_SCHEMA = {
+  type: 'object',
+  properties: {
+    intro: { type: 'string' },
+    points: { type: 'array', items: { type: 'string' } },
+    conclusion: { type: 'string' },
+    lessonVocab: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          ipa: { type: 'string' },
+          translation: { type: 'string' },
+          icon: { type: 'string' }
+        },
+        required: ["word", "ipa", "translation", "icon"]
+      }
+    }
+  },
+  required: ["intro", "points", "conclusion", "lessonVocab"]
+};
+
+export const EVALUATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    transcript: { type: 'string' },
+    pronunciation: { type: 'number' },
+    fluency: { type: 'number' },
+    intonation: { type: 'number' },
+    vocabulary: { type: 'number' },
+    grammar: { type: 'number' },
+    taskFulfillment: { type: 'number' },
+    feedback: { type: 'string' },
+    teacherPraise: { type: 'string' },
+    suggestions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ["transcript", "pronunciation", "fluency", "intonation", "vocabulary", "grammar", "taskFulfillment", "feedback"]
+};
+
+export const VOCABULARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    items: SCRIPT_SCHEMA.properties.lessonVocab
+  }
+};
@@ -0,0 +1,55 @@
+import { CEFRLevel, PresentationData, EvaluationResult, VocabularyItem, VoiceAccent } from "../../types";
+import { SpeechPace } from "../prompts";
+
+// ========================================
+// AI Provider - the operations the lesson flow needs
+// ========================================
+// geminiService.ts is the only caller; it picks the active provider and adds the
+// provider-independent post-processing (score normalization, word alignment).
+
+export type AIProviderId = 'gemini' | 'mock' | 'openai-compatible';
+
+// Providers that handle every operation and can be picked as the main one
+export type MainProviderId = Exclude<AIProviderId, 'openai-compatible'>;
+
+export type ScriptPayload = Pick<PresentationData, 'intro' | 'points' | 'conclusion' | 'lessonVocab'>;
+
+export type RawEvaluation = Pick<EvaluationResult,
+  'transcript' | 'pronunciation' | 'fluency' | 'intonation' | 'vocabulary' | 'grammar' | 'taskFulfillment' | 'feedback' | 'teacherPraise' | 'suggestions'>;
+
+export interface SpeechOptions {
+  voiceName: string;
+  accent: VoiceAccent;
+  pace: SpeechPace;
+}
+
+// Live view of one provider call, for the generation progress screen
+export interface CallObserver {
+  onModel?: (model: string) => void;      // Each model the fallback chain tries
+  onText?: (soFar: string) => void;       // Response text streamed so far
+}
+
+// What a recording is graded against: reading a known script aloud, or
+// answering a question in the child's own words (placement test)
+export type EvaluationTarget =
+  | { kind: 'script'; script: string }
+  | { kind: 'description'; question: string };
+
+// Second attempt after the answer failed validation (see responseValidation.ts)
+export interface RepairRequest {
+  previous: unknown;
+  problems: string[];
+}
+
+// generateScript and evaluateRecording return the model's JSON unchecked -
+// geminiService validates it into ScriptPayload / RawEvaluation.
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  generateIllustration(theme: string, observer?: CallObserver): Promise<string>;
+  generateScript(imageUri: string, theme: string, level: CEFRLevel, repair?: RepairRequest, observer?: CallObserver): Promise<unknown>;
+  synthesizeSpeech(text: string, options: SpeechOptions, observer?: CallObserver): Promise<AudioBuffer>;
+  evaluateRecording(target: EvaluationTarget, audioBase64: string, audioMimeType: string, level: CEFRLevel, repair?: RepairRequest): Promise<unknown>;
+  completeVocabulary(words: string[], observer?: CallObserver): Promise<VocabularyItem[]>;
+}
@@ -0,0 +1,195 @@
+import { GoogleGenAI, GenerateContentResponse, Type, Modality } from "@google/genai";
+import { AIProvider } from "./aiProvider";
+import { callWithModelFallback, trackedCall } from "../apiClient";
+import { loadApiKeys } from "../keyPool";
+import { MalformedResponseError, MissingApiKeyError, SafetyBlockedError } from "../errors";
+import { approxAudioTokens, approxTextTokens, IMAGE_INPUT_TOKENS } from "../usageLedger";
+import { buildIllustrationPrompt, buildRepairPrompt, buildScriptPrompt, buildEvaluationPrompt, buildSpeechPrompt, buildVocabularyPrompt, SCRIPT_SCHEMA, EVALUATION_SCHEMA, VOCABULARY_SCHEMA } from "../prompts";
+
+// ========================================
+// API Key Management
+// ========================================
+
+/**
+ * First saved API key (the pool lives in keyPool.ts)
+ * Following AI_INSTRUCTIONS.md: "Ưu tiên sử dụng key từ localStorage"
+ */
+export function getApiKey(): string {
+  const [key] = loadApiKeys();
+  if (key) return key;
+  throw new MissingApiKeyError();
+}
+
+/**
+ * Create AI client for the key the request queue picked
+ */
+function createAIClient(apiKey: string): GoogleGenAI {
+  return new GoogleGenAI({ apiKey });
+}
+
+// ========================================
+// Model Configuration - 2026 Stable Models
+// https://ai.google.dev/gemini-api/docs/models
+// ========================================
+
+// Text models are also used for image generation - they support it natively!
+// gemini-2.5-flash-image NOT available in free tier, causes quota errors
+const MODEL_FALLBACK_CHAIN = [
+  'gemini-2.5-flash-lite',     // Primary: Cheapest, optimized for high-throughput
+  'gemini-2.5-flash',          // Fallback: Fast, best price-performance
+];
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts'; // TTS model is specific, doesn't use fallback
+
+// Finish / block reasons meaning the content itself was refused - retrying will not help
+const BLOCKED_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+function checkNotBlocked(response: GenerateContentResponse): void {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(String(blockReason));
+  const finishReason = String(response.candidates?.[0]?.finishReason || '');
+  if (BLOCKED_REASONS.includes(finishReason)) throw new SafetyBlockedError(finishReason);
+}
+
+function parseJsonText(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new MalformedResponseError(`Invalid JSON: ${(text || '(empty)').slice(0, 80)}`, err);
+  }
+}
+
+function parseJsonResponse(response: GenerateContentResponse): any {
+  checkNotBlocked(response);
+  return parseJsonText(response.text || '');
+}
+
+/**
+ * Shared prompts use plain JSON Schema; Gemini's responseSchema wants upper-case Type enums
+ */
+function toGeminiSchema(schema: any): any {
+  const out: any = { type: Type[String(schema.type).toUpperCase() as keyof typeof Type] };
+  if (schema.properties) out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]));
+  if (schema.items) out.items = toGeminiSchema(schema.items);
+  if (schema.required) out.required = schema.required;
+  // Gemini orders keys alphabetically unless told otherwise - keep the schema order so the
+  // streamed script arrives intro first
+  if (schema.properties) out.propertyOrdering = Object.keys(schema.properties);
+  return out;
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  requiresApiKey: true,
+
+  generateIllustration: (theme, observer) => callWithModelFallback(async (model, apiKey) => {
+    const ai = createAIClient(apiKey); // Key picked by the request queue
+    const response = await ai.models.generateContent({
+      model, // Use dynamic model from fallback
+      contents: { parts: [{ text: buildIllustrationPrompt(theme) }] },
+      config: { imageConfig: { aspectRatio: "16:9" } }
+    });
+    checkNotBlocked(response);
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+    }
+    throw new MalformedResponseError('No image in response');
+  }, MODEL_FALLBACK_CHAIN, { provider: 'gemini', operation: 'illustration', inputTokens: approxTextTokens(buildIllustrationPrompt(theme)) }, observer),
+
+  generateScript: (imageUri, theme, level, repair, observer) => callWithModelFallback(async (model, apiKey) => {
+    const ai = createAIClient(apiKey); // Key picked by the request queue
+
+    // Build prompt parts based on whether image is provided
+    const hasImage = !!imageUri && imageUri.length > 0;
+    const parts: any[] = [];
+    if (hasImage) parts.push({ inlineData: { mimeType: 'image/png', data: imageUri.split(',')[1] } });
+    parts.push({ text: buildScriptPrompt(theme, level, hasImage) });
+    if (repair) parts.push({ text: buildRepairPrompt(repair.previous, repair.problems) });
+
+    // Streamed so the child can start reading while the rest is written
+    const stream = await ai.models.generateContentStream({
+      model, // Use dynamic model from fallback
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(SCRIPT_SCHEMA)
+      }
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      checkNotBlocked(chunk);
+      text += chunk.text || '';
+      observer?.onText?.(text);
+    }
+    return parseJsonText(text);
+  }, MODEL_FALLBACK_CHAIN, { provider: 'gemini', operation: 'script', inputTokens: approxTextTokens(buildScriptPrompt(theme, level, !!imageUri)) + (imageUri ? IMAGE_INPUT_TOKENS : 0) }, observer),
+
+  synthesizeSpeech: async (text, { voiceName, accent, pace }, observer) => {
+    // TTS doesn't need fallback - it uses a specific stable model
+    observer?.onModel?.(TTS_MODEL);
+    const prompt = buildSpeechPrompt(text, accent, pace);
+    const response = await trackedCall({ provider: 'gemini', operation: 'speech', inputTokens: approxTextTokens(prompt) }, TTS_MODEL, apiKey => createAIClient(apiKey).models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } }
+      },
+    }));
+    checkNotBlocked(response);
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new MalformedResponseError('No audio in response');
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    return await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+  },
+
+  evaluateRecording: (target, audioBase64, audioMimeType, level, repair) => callWithModelFallback(async (model, apiKey) => {
+    const ai = createAIClient(apiKey); // Key picked by the request queue
+    const parts: any[] = [
+      { inlineData: { mimeType: audioMimeType, data: audioBase64 } },
+      { text: buildEvaluationPrompt(target, level) }
+    ];
+    if (repair) parts.push({ text: buildRepairPrompt(repair.previous, repair.problems) });
+    const response = await ai.models.generateContent({
+      model, // Use dynamic model from fallback chain
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(EVALUATION_SCHEMA)
+      }
+    });
+    return parseJsonResponse(response);
+  }, MODEL_FALLBACK_CHAIN, { provider: 'gemini', operation: 'evaluation', inputTokens: approxAudioTokens(audioBase64, audioMimeType) + approxTextTokens(buildEvaluationPrompt(target, level)) }),
+
+  completeVocabulary: (words, observer) => callWithModelFallback(async (model, apiKey) => {
+    const ai = createAIClient(apiKey); // Key picked by the request queue
+    const response = await ai.models.generateContent({
+      model, // Use dynamic model from fallback chain
+      contents: { parts: [{ text: buildVocabularyPrompt(words) }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(VOCABULARY_SCHEMA)
+      }
+    });
+    return parseJsonResponse(response).items || [];
+  }, MODEL_FALLBACK_CHAIN, { provider: 'gemini', operation: 'vocabulary', inputTokens: approxTextTokens(buildVocabularyPrompt(words)) }, observer),
+};
+
+export function decode(base64: string) {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+  return bytes;
+}
+
+export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+  }
+  return buffer;
+}
@@ -0,0 +1,151 @@
+import { CEFRLevel, VocabularyItem } from "../../types";
+import { PREDEFINED_THEMES } from "../../constants";
+import { AIProvider, RawEvaluation, ScriptPayload } from "./aiProvider";
+import { LEVEL_WORD_LIMITS, SpeechPace } from "../prompts";
+import { countWords } from "../scriptAlignment";
+
+// ========================================
+// Mock Provider - deterministic fixtures, no network, no API key
+// ========================================
+// Same input always gives the same output, so the whole AppStatus flow can be
+// developed and demoed offline.
+
+const FAKE_LATENCY_MS = 400;
+const MOCK_MODEL = 'offline-fixtures';
+const STREAM_CHUNKS = 8;
+const SAMPLE_RATE = 24000;
+const SECONDS_PER_WORD: Record<SpeechPace, number> = { slow: 0.5, normal: 0.4, natural: 0.3 };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a - small stable hash for picking fixture variants
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const POINT_BANK = [
+  'I can see many bright colors in the picture.',
+  'The children are smiling and playing together.',
+  'There is a big tree next to a small house.',
+  'The sun is shining and the sky is blue.',
+  'A little dog is running after a red ball.',
+  'My friends and I like this place very much.',
+  'We often come here with our family at the weekend.',
+  'Everyone looks happy because it is a beautiful day.',
+  'I think this place is fun, so I want to visit it again.',
+  'If I had more time, I would stay here all afternoon.',
+  'It is a place where people can relax and enjoy nature.',
+];
+
+const VOCAB_FIXTURES: VocabularyItem[] = [
+  { word: 'picture', ipa: 'ˈpɪk.tʃər', translation: 'bức tranh', icon: '🖼️' },
+  { word: 'happy', ipa: 'ˈhæp.i', translation: 'vui vẻ', icon: '😊' },
+  { word: 'colors', ipa: 'ˈkʌl.ərz', translation: 'màu sắc', icon: '🎨' },
+  { word: 'friends', ipa: 'frendz', translation: 'bạn bè', icon: '🧑‍🤝‍🧑' },
+  { word: 'beautiful', ipa: 'ˈbjuː.tɪ.fəl', translation: 'đẹp', icon: '🌸' },
+];
+
+const themeEmoji = (theme: string) =>
+  PREDEFINED_THEMES.find(t => t.label.toLowerCase() === theme.trim().toLowerCase())?.icon || '🎨';
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Chế độ thử nghiệm (offline)',
+  requiresApiKey: false,
+
+  generateIllustration: async (theme, observer) => {
+    observer?.onModel?.(MOCK_MODEL);
+    await wait(FAKE_LATENCY_MS);
+    const hue = hash(theme) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+      <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+        <stop offset="0" stop-color="hsl(${hue},90%,70%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},90%,60%)"/>
+      </linearGradient></defs>
+      <rect width="1280" height="720" fill="url(#g)"/>
+      <text x="640" y="380" font-size="260" text-anchor="middle" dominant-baseline="middle">${themeEmoji(theme)}</text>
+      <text x="640" y="640" font-size="64" font-family="sans-serif" font-weight="bold" fill="white" text-anchor="middle">${escapeXml(theme)}</text>
+    </svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  },
+
+  generateScript: async (_imageUri, theme, level: CEFRLevel, _repair, observer): Promise<ScriptPayload> => {
+    observer?.onModel?.(MOCK_MODEL);
+    const intro = `Hello! Today I will talk about ${theme}.`;
+    const conclusion = 'Thank you for listening!';
+    // Cycle through the bank until the script is long enough for the level, so it passes validation
+    const start = hash(theme) % POINT_BANK.length;
+    const points: string[] = [];
+    while (countWords(`${intro} ${points.join(' ')} ${conclusion}`) < LEVEL_WORD_LIMITS[level].min) {
+      points.push(POINT_BANK[(start + points.length) % POINT_BANK.length]);
+    }
+    const payload: ScriptPayload = {
+      intro,
+      points,
+      conclusion,
+      lessonVocab: VOCAB_FIXTURES,
+    };
+    // Hand the JSON out in slices, like a streamed model answer
+    const json = JSON.stringify(payload);
+    for (let i = 1; i <= STREAM_CHUNKS; i++) {
+      await wait(FAKE_LATENCY_MS / STREAM_CHUNKS);
+      observer?.onText?.(json.slice(0, Math.ceil((json.length * i) / STREAM_CHUNKS)));
+    }
+    return payload;
+  },
+
+  synthesizeSpeech: async (text, { voiceName, pace }, observer) => {
+    observer?.onModel?.(MOCK_MODEL);
+    await wait(FAKE_LATENCY_MS);
+    // One soft "syllable" tone per word with a short gap, so the buffer has
+    // realistic word boundaries and a duration proportional to the text
+    const words = text.split(/\s+/).filter(Boolean);
+    const wordSamples = Math.floor(SECONDS_PER_WORD[pace] * SAMPLE_RATE);
+    const baseFreq = 150 + (hash(voiceName) % 100);
+    const toneSamples = Math.floor(wordSamples * 0.75);
+    const buffer = new AudioBuffer({ length: Math.max(1, words.length * wordSamples), numberOfChannels: 1, sampleRate: SAMPLE_RATE });
+    const data = buffer.getChannelData(0);
+    words.forEach((word, w) => {
+      const freq = baseFreq + (hash(word) % 120);
+      for (let i = 0; i < toneSamples; i++) {
+        const envelope = Math.sin((Math.PI * i) / toneSamples);
+        data[w * wordSamples + i] = 0.3 * envelope * Math.sin((2 * Math.PI * freq * i) / SAMPLE_RATE);
+      }
+    });
+    return buffer;
+  },
+
+  evaluateRecording: async (target, audioBase64): Promise<RawEvaluation> => {
+    await wait(FAKE_LATENCY_MS);
+    const originalScript = target.kind === 'script' ? target.script : 'I can see a picture. It is very nice.';
+    const seed = hash(`${originalScript}|${audioBase64.length}`);
+    const score = (shift: number) => 6 + ((seed >>> shift) % 8) / 2; // 6.0 .. 9.5
+    // Drop every 7th word so the word-level alignment has something to show
+    const transcript = originalScript.split(/\s+/).filter((_, i) => (i + 1) % 7 !== 0).join(' ');
+    return {
+      transcript,
+      pronunciation: score(0),
+      fluency: score(3),
+      intonation: score(6),
+      vocabulary: score(9),
+      grammar: score(12),
+      taskFulfillment: score(15),
+      feedback: 'Bé đọc rõ ràng và tự tin. Hãy chú ý đọc đủ từng từ trong bài nhé!',
+      teacherPraise: 'Giỏi lắm! Cô rất vui khi nghe bé thuyết trình.',
+      suggestions: ['Nghe lại bài mẫu của cô trước khi nói.', 'Nói chậm và rõ từng từ.', 'Ngắt nghỉ ở dấu chấm câu.'],
+    };
+  },
+
+  completeVocabulary: async (words, observer) => {
+    observer?.onModel?.(MOCK_MODEL);
+    await wait(FAKE_LATENCY_MS);
+    return words.map(word => VOCAB_FIXTURES.find(v => v.word === word.toLowerCase())
+      || { word, ipa: word.toLowerCase(), translation: `(nghĩa của "${word}")`, icon: '📝' });
+  },
+};
@@ -0,0 +1,155 @@
+import { AIProvider } from "./aiProvider";
+import { callWithModelFallback } from "../apiClient";
+import { AppError, MalformedResponseError, SafetyBlockedError } from "../errors";
+import { approxAudioTokens, approxTextTokens, IMAGE_INPUT_TOKENS } from "../usageLedger";
+import { buildRepairPrompt, buildScriptPrompt, buildEvaluationPrompt, buildVocabularyPrompt, SCRIPT_SCHEMA, EVALUATION_SCHEMA, VOCABULARY_SCHEMA } from "../prompts";
+import { decodeRecording, encodeWav, blobToBase64 } from "../audioUtils";
+
+// ========================================
+// OpenAI-compatible Endpoint - e.g. a self-hosted server on the school LAN
+// ========================================
+// Only the text/JSON operations (script, evaluation, vocabulary) go here, so
+// children's recordings never leave the local network. Illustrations and
+// teacher voice stay on the main provider.
+
+export interface LocalLlmConfig {
+  enabled: boolean;
+  baseUrl: string;              // e.g. http://192.168.1.10:8000/v1
+  models: string[];             // Tried in order, like MODEL_FALLBACK_CHAIN
+  apiKey: string;               // Optional - most LAN servers ignore it
+}
+
+const LOCAL_LLM_KEY = 'speakpro_local_llm';
+
+export function loadLocalLlmConfig(): LocalLlmConfig {
+  const fallback: LocalLlmConfig = { enabled: false, baseUrl: '', models: [], apiKey: '' };
+  try {
+    const raw = localStorage.getItem(LOCAL_LLM_KEY);
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveLocalLlmConfig(config: LocalLlmConfig): void {
+  localStorage.setItem(LOCAL_LLM_KEY, JSON.stringify(config));
+}
+
+/**
+ * Read a server-sent-events completion, reporting the text as it grows
+ */
+async function readStream(response: Response, onText: (soFar: string) => void): Promise<{ content: string; finishReason?: string }> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let content = '';
+  let finishReason: string | undefined;
+  const readLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+    const choice = JSON.parse(data)?.choices?.[0];
+    if (choice?.delta?.content) {
+      content += choice.delta.content;
+      onText(content);
+    }
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    lines.forEach(readLine);
+  }
+  // Some servers close the stream without a newline after the last event
+  buffered += decoder.decode();
+  if (buffered) readLine(buffered);
+  return { content, finishReason };
+}
+
+/**
+ * Chat completions call. HTTP failures carry `status` so callWithModelFallback
+ * can tell 404 / 429 / 5xx apart exactly as it does for Gemini.
+ * With `onText` the answer is streamed.
+ */
+async function chatCompletion(config: LocalLlmConfig, model: string, content: any[], schemaName: string, schema: object, onText?: (soFar: string) => void): Promise<any> {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content }],
+      response_format: { type: 'json_schema', json_schema: { name: schemaName, schema } },
+      ...(onText ? { stream: true } : {}),
+    }),
+  });
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw Object.assign(new Error(`Máy chủ AI nội bộ lỗi ${response.status}: ${body.slice(0, 200)}`), { status: response.status });
+  }
+  const { content: text, finishReason } = onText && response.body
+    ? await readStream(response, onText)
+    : await response.json().then(data => ({ content: data?.choices?.[0]?.message?.content || '', finishReason: data?.choices?.[0]?.finish_reason }));
+  if (finishReason === 'content_filter') throw new SafetyBlockedError('content_filter');
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new MalformedResponseError(`Invalid JSON from ${model}`, err);
+  }
+}
+
+/**
+ * The chat API only accepts wav/mp3 audio, so browser recordings (webm/mp4) are re-encoded
+ */
+async function toWavBase64(audioBase64: string, audioMimeType: string): Promise<string> {
+  if (audioMimeType === 'audio/wav') return audioBase64;
+  const bytes = Uint8Array.from(atob(audioBase64), c => c.charCodeAt(0));
+  const buffer = await decodeRecording(new Blob([bytes], { type: audioMimeType }));
+  return blobToBase64(encodeWav(buffer));
+}
+
+export function createOpenAICompatibleProvider(config: LocalLlmConfig): AIProvider {
+  const unsupported = (what: string) => async (): Promise<never> => {
+    throw new AppError('unknown', { hint: `Máy chủ AI nội bộ không hỗ trợ ${what}.` });
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'Máy chủ nội bộ (OpenAI-compatible)',
+    requiresApiKey: false,
+
+    generateIllustration: unsupported('tạo ảnh'),
+    synthesizeSpeech: unsupported('đọc mẫu'),
+
+    generateScript: (imageUri, theme, level, repair, observer) => callWithModelFallback(async (model) => {
+      const hasImage = !!imageUri && imageUri.length > 0;
+      const content: any[] = [];
+      if (hasImage) content.push({ type: 'image_url', image_url: { url: imageUri } });
+      content.push({ type: 'text', text: buildScriptPrompt(theme, level, hasImage) });
+      if (repair) content.push({ type: 'text', text: buildRepairPrompt(repair.previous, repair.problems) });
+      return chatCompletion(config, model, content, 'presentation_script', SCRIPT_SCHEMA, observer?.onText);
+    }, config.models, { provider: 'openai-compatible', operation: 'script', inputTokens: approxTextTokens(buildScriptPrompt(theme, level, !!imageUri)) + (imageUri ? IMAGE_INPUT_TOKENS : 0) }, observer),
+
+    evaluateRecording: async (target, audioBase64, audioMimeType, level, repair) => {
+      const wavBase64 = await toWavBase64(audioBase64, audioMimeType);
+      return callWithModelFallback(async (model) => {
+        const content: any[] = [
+          { type: 'input_audio', input_audio: { data: wavBase64, format: 'wav' } },
+          { type: 'text', text: buildEvaluationPrompt(target, level) },
+        ];
+        if (repair) content.push({ type: 'text', text: buildRepairPrompt(repair.previous, repair.problems) });
+        return chatCompletion(config, model, content, 'presentation_evaluation', EVALUATION_SCHEMA);
+      }, config.models, { provider: 'openai-compatible', operation: 'evaluation', inputTokens: approxAudioTokens(wavBase64, 'audio/wav') + approxTextTokens(buildEvaluationPrompt(target, level)) });
+    },
+
+    completeVocabulary: (words, observer) => callWithModelFallback(async (model) => {
+      const content = [{ type: 'text', text: buildVocabularyPrompt(words) }];
+      const data = await chatCompletion(config, model, content, 'vocabulary_items', VOCABULARY_SCHEMA);
+      return data.items || [];
+    }, config.models, { provider: 'openai-compatible', operation: 'vocabulary', inputTokens: approxTextTokens(buildVocabularyPrompt(words)) }, observer),
+  };
+}
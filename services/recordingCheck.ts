@@ -0,0 +1,78 @@
+import { decodeRecording, frameRms } from "./audioUtils";
+
+// ========================================
+// Recording Pre-check - catch unusable audio before it costs a request
+// ========================================
+// Silent, noise-only or far-too-short recordings always come back scored 0,
+// so they are rejected locally with a friendly message instead.
+
+export interface RecordingAnalysis {
+  duration: number;             // Seconds, whole clip
+  speechSeconds: number;        // Seconds of voiced frames
+  voicedRatio: number;          // 0-1
+  snrDb: number;                // Speech level over the noise floor
+}
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const MIN_VOICE_RMS = 0.01;     // Absolute floor, whatever the noise estimate says
+const VOICE_OVER_NOISE = 3;     // A frame is voiced when it is this many times the noise floor
+
+const MIN_SPEECH_SECONDS = 0.6;
+const MIN_SPEECH_SECONDS_PER_WORD = 0.2; // Lowers the floor for one- and two-word sentences ("Hello!")
+const MIN_VOICED_RATIO = 0.08;
+const MIN_SNR_DB = 6;
+const VOICED_SECONDS_PER_WORD = 0.3;   // Typical for slow, careful child speech
+const MIN_EXPECTED_FRACTION = 0.25;    // Less than a quarter of the script is clearly not a full attempt
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] || 0;
+
+export async function analyzeRecording(blob: Blob): Promise<RecordingAnalysis> {
+  const buffer = await decodeRecording(blob, new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE));
+  const frames = frameRms(buffer.getChannelData(0), buffer.sampleRate, FRAME_MS);
+  if (frames.length === 0) return { duration: buffer.duration, speechSeconds: 0, voicedRatio: 0, snrDb: 0 };
+
+  const sorted = [...frames].sort((a, b) => a - b);
+  const noiseFloor = Math.max(percentile(sorted, 0.1), 1e-5);
+  const speechLevel = percentile(sorted, 0.9);
+  const threshold = Math.max(MIN_VOICE_RMS, noiseFloor * VOICE_OVER_NOISE);
+  const voiced = frames.filter(rms => rms >= threshold).length;
+
+  return {
+    duration: buffer.duration,
+    speechSeconds: (voiced * FRAME_MS) / 1000,
+    voicedRatio: voiced / frames.length,
+    snrDb: 20 * Math.log10(Math.max(speechLevel, 1e-5) / noiseFloor),
+  };
+}
+
+/**
+ * Vietnamese reason the recording should not be sent, or null when it looks usable
+ */
+export function findRecordingProblem(analysis: RecordingAnalysis, scriptWordCount: number): string | null {
+  const minSpeechSeconds = Math.min(MIN_SPEECH_SECONDS, Math.max(1, scriptWordCount) * MIN_SPEECH_SECONDS_PER_WORD);
+  if (analysis.speechSeconds < minSpeechSeconds || analysis.voicedRatio < MIN_VOICED_RATIO) {
+    return 'Cô chưa nghe thấy bé nói gì cả 🙉 Bé kiểm tra micro rồi nói to, rõ hơn nhé!';
+  }
+  if (analysis.snrDb < MIN_SNR_DB) {
+    return 'Xung quanh ồn quá nên cô không nghe rõ giọng bé 🔊 Bé tìm chỗ yên tĩnh hơn rồi thu lại nhé!';
+  }
+  const expectedSeconds = scriptWordCount * VOICED_SECONDS_PER_WORD;
+  if (analysis.speechSeconds < expectedSeconds * MIN_EXPECTED_FRACTION) {
+    return `Bài nói ngắn hơn nhiều so với bài mẫu (${Math.round(analysis.speechSeconds)} giây). Bé đọc hết cả bài rồi cô chấm nhé! 📖`;
+  }
+  return null;
+}
+
+/**
+ * Decode and check in one go. Decoding errors are not the child's fault, so
+ * they let the recording through rather than blocking it.
+ */
+export async function precheckRecording(blob: Blob, scriptWordCount: number): Promise<string | null> {
+  try {
+    return findRecordingProblem(await analyzeRecording(blob), scriptWordCount);
+  } catch (e) {
+    console.warn('[Precheck] Could not analyse recording', e);
+    return null;
+  }
+}
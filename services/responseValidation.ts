@@ -0,0 +1,113 @@
+import { CEFRLevel, VocabularyItem } from "../types";
+import { LEVEL_WORD_LIMITS } from "./prompts";
+import { countWords } from "./scriptAlignment";
+import type { RawEvaluation, ScriptPayload } from "./providers/aiProvider";
+
+// ========================================
+// Response Validation - check AI JSON before the lesson flow touches it
+// ========================================
+// Models occasionally drop a field, return a number as a string or ignore the
+// word limit. Each validator returns the cleaned-up value when the structure
+// is usable, plus a list of problems written for the model: they are sent
+// back verbatim in the repair prompt.
+
+export interface Validated<T> {
+  value: T | null;              // null = structurally unusable
+  problems: string[];           // Empty = fully valid
+}
+
+// The script may miss the level's word range by this much before it counts as a problem
+const WORD_LIMIT_SLACK = 0.25;
+
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+const isObject = (raw: unknown): raw is Record<string, unknown> => typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+function toScore(value: unknown): number | null {
+  const num = typeof value === 'string' && value.trim() ? Number(value.trim()) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+}
+
+function validateVocab(raw: unknown, problems: string[]): VocabularyItem[] {
+  if (!Array.isArray(raw)) {
+    problems.push('"lessonVocab" must be an array of {word, ipa, translation, icon}.');
+    return [];
+  }
+  const items: VocabularyItem[] = [];
+  raw.forEach((entry, i) => {
+    if (!isObject(entry) || !text(entry.word)) {
+      problems.push(`lessonVocab[${i}] has no "word".`);
+      return;
+    }
+    const word = text(entry.word);
+    const ipa = text(entry.ipa).replace(/^[/[]+|[/\]]+$/g, '');
+    const translation = text(entry.translation);
+    const icon = text(entry.icon);
+    if (!ipa || ipa.toLowerCase() === word.toLowerCase()) problems.push(`"${word}" needs a real IPA transcription in "ipa".`);
+    if (!translation) problems.push(`"${word}" needs a Vietnamese "translation".`);
+    if (!EMOJI.test(icon)) problems.push(`"${word}" needs one emoji in "icon".`);
+    items.push({ word, ipa, translation, icon });
+  });
+  if (items.length === 0) problems.push('"lessonVocab" must contain at least one word from the script.');
+  return items;
+}
+
+export function validateScript(raw: unknown, level: CEFRLevel): Validated<ScriptPayload> {
+  const problems: string[] = [];
+  if (!isObject(raw)) return { value: null, problems: ['The answer must be a JSON object.'] };
+
+  const intro = text(raw.intro);
+  const conclusion = text(raw.conclusion);
+  const points = Array.isArray(raw.points) ? raw.points.map(text).filter(Boolean) : [];
+  if (!intro) problems.push('"intro" must be a non-empty string.');
+  if (!conclusion) problems.push('"conclusion" must be a non-empty string.');
+  if (points.length === 0) problems.push('"points" must be a non-empty array of strings.');
+  const lessonVocab = validateVocab(raw.lessonVocab, problems);
+
+  // Missing parts cannot be shown at all; everything else is still a usable lesson
+  if (!intro || !conclusion || points.length === 0) return { value: null, problems };
+
+  const words = countWords(`${intro} ${points.join(' ')} ${conclusion}`);
+  const { min, max } = LEVEL_WORD_LIMITS[level];
+  if (words < min * (1 - WORD_LIMIT_SLACK) || words > max * (1 + WORD_LIMIT_SLACK)) {
+    problems.push(`The script has ${words} words; a ${level} script must have ${min}-${max} words.`);
+  }
+  return { value: { intro, points, conclusion, lessonVocab }, problems };
+}
+
+const SCORE_FIELDS = ['pronunciation', 'fluency', 'intonation', 'vocabulary', 'grammar', 'taskFulfillment'] as const;
+
+export function validateEvaluation(raw: unknown): Validated<RawEvaluation> {
+  const problems: string[] = [];
+  if (!isObject(raw)) return { value: null, problems: ['The answer must be a JSON object.'] };
+
+  if (typeof raw.transcript !== 'string') problems.push('"transcript" must be a string (empty if nothing was said).');
+  SCORE_FIELDS.forEach(field => {
+    const score = toScore(raw[field]);
+    if (score === null) problems.push(`"${field}" must be a number from 0 to 10.`);
+    else if (score < 0 || score > 10) problems.push(`"${field}" is ${score}; scores must be from 0 to 10.`);
+  });
+  if (!text(raw.feedback)) problems.push('"feedback" must be encouraging feedback in Vietnamese.');
+
+  // Without a transcript and every score there is nothing to grade against
+  if (typeof raw.transcript !== 'string' || SCORE_FIELDS.some(f => toScore(raw[f]) === null)) return { value: null, problems };
+
+  const clamp = (field: typeof SCORE_FIELDS[number]) => Math.min(10, Math.max(0, toScore(raw[field])!));
+  return {
+    value: {
+      transcript: raw.transcript.trim(),
+      pronunciation: clamp('pronunciation'),
+      fluency: clamp('fluency'),
+      intonation: clamp('intonation'),
+      vocabulary: clamp('vocabulary'),
+      grammar: clamp('grammar'),
+      taskFulfillment: clamp('taskFulfillment'),
+      feedback: text(raw.feedback),
+      teacherPraise: text(raw.teacherPraise),
+      suggestions: Array.isArray(raw.suggestions) ? raw.suggestions.map(text).filter(Boolean) : [],
+    },
+    problems,
+  };
+}
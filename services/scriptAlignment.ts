@@ -0,0 +1,87 @@
+import { AlignedWord } from "../types";
+
+// ========================================
+// Script Alignment - word-level diff between script and transcript
+// ========================================
+// Classic Levenshtein alignment over words, done locally so it costs no quota.
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^a-z0-9']/g, '');
+
+const tokenize = (text: string) => text.split(/\s+/).filter(w => normalizeWord(w).length > 0);
+
+export const countWords = (text: string) => tokenize(text).length;
+
+/**
+ * Align the expected script with what the model heard.
+ * Every script word appears exactly once (correct / missed / substituted);
+ * extra spoken words are returned as 'inserted' at the position they occurred.
+ */
+export function alignWords(expectedScript: string, transcript: string): AlignedWord[] {
+  const expected = tokenize(expectedScript);
+  const spoken = tokenize(transcript);
+  const a = expected.map(normalizeWord);
+  const b = spoken.map(normalizeWord);
+  const n = a.length;
+  const m = b.length;
+
+  // dist[i][j] = edit distance between a[0..i) and b[0..j)
+  const dist: number[][] = Array.from({ length: n + 1 }, (_, i) => {
+    const row = new Array<number>(m + 1).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j <= m; j++) dist[0][j] = j;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const subCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dist[i][j] = Math.min(
+        dist[i - 1][j - 1] + subCost, // match / substitution
+        dist[i - 1][j] + 1,           // missed script word
+        dist[i][j - 1] + 1            // inserted spoken word
+      );
+    }
+  }
+
+  // Backtrace from the bottom-right corner, preferring diagonal moves
+  const aligned: AlignedWord[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+      aligned.push(a[i - 1] === b[j - 1]
+        ? { word: expected[i - 1], status: 'correct' }
+        : { word: expected[i - 1], status: 'substituted', spoken: spoken[j - 1] });
+      i--; j--;
+    } else if (i > 0 && dist[i][j] === dist[i - 1][j] + 1) {
+      aligned.push({ word: expected[i - 1], status: 'missed' });
+      i--;
+    } else {
+      aligned.push({ word: spoken[j - 1], status: 'inserted' });
+      j--;
+    }
+  }
+  return aligned.reverse();
+}
+
+/**
+ * Turn alignment errors into friendly Vietnamese tips, one per distinct word
+ */
+export function buildMistakes(alignment: AlignedWord[]): { word: string; tip: string }[] {
+  const seen = new Set<string>();
+  const mistakes: { word: string; tip: string }[] = [];
+  for (const w of alignment) {
+    if (w.status === 'correct') continue;
+    const key = `${w.status}:${normalizeWord(w.word)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const clean = w.word.replace(/[^A-Za-z0-9']/g, '');
+    if (w.status === 'missed') {
+      mistakes.push({ word: clean, tip: `Bé quên nói từ "${clean}". Hãy đọc lại câu có từ này nhé!` });
+    } else if (w.status === 'substituted') {
+      mistakes.push({ word: clean, tip: `Cô nghe thành "${normalizeWord(w.spoken || '')}". Bé nghe cô đọc mẫu từ "${clean}" rồi nói lại nhé!` });
+    } else {
+      mistakes.push({ word: clean, tip: `Từ "${clean}" không có trong bài. Bé cố gắng nói đúng theo bài nhé!` });
+    }
+  }
+  return mistakes;
+}
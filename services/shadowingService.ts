@@ -0,0 +1,49 @@
+import { PresentationData, EvaluationResult, ScoreCriterion } from "../types";
+import { countWords } from "./scriptAlignment";
+
+// ========================================
+// Shadowing Mode - listen, repeat, one sentence at a time
+// ========================================
+
+/**
+ * Break the script into the sentences the child repeats, in reading order:
+ * intro, every point, then conclusion.
+ */
+export function splitIntoSentences(presentation: PresentationData): string[] {
+  const sections = [presentation.intro, ...presentation.points, presentation.conclusion];
+  return sections
+    .flatMap(section => section.match(/[^.!?]+[.!?]+["')]*|[^.!?]+$/g) || [])
+    .map(s => s.trim())
+    .filter(s => countWords(s) > 0);
+}
+
+const CRITERIA: ScoreCriterion[] = ['pronunciation', 'fluency', 'intonation', 'vocabulary', 'grammar', 'taskFulfillment'];
+
+/**
+ * Merge per-sentence evaluations into one result. Each sentence is weighted by
+ * its word count so a one-word "Hello!" does not count as much as a long point.
+ */
+export function combineResults(sentences: string[], results: EvaluationResult[]): EvaluationResult {
+  const weights = sentences.map(countWords);
+  const totalWeight = weights.reduce((a, b) => a + b, 0) || 1;
+  const weighted = (pick: (r: EvaluationResult) => number) =>
+    Math.round(results.reduce((sum, r, i) => sum + pick(r) * weights[i], 0) / totalWeight * 10) / 10;
+
+  const scores = Object.fromEntries(CRITERIA.map(c => [c, weighted(r => r[c])])) as Record<ScoreCriterion, number>;
+  const best = results.reduce((a, b) => (b.score > a.score ? b : a), results[0]);
+  const worst = results.reduce((a, b) => (b.score < a.score ? b : a), results[0]);
+
+  return {
+    ...scores,
+    score: weighted(r => r.score),
+    perceivedLevel: results[0]?.perceivedLevel || '',
+    transcript: results.map(r => r.transcript).join(' '),
+    mistakes: results.flatMap(r => r.mistakes),
+    wordAlignment: results.flatMap(r => r.wordAlignment),
+    // The weakest sentence carries the most useful advice
+    feedback: `Bé đã luyện xong ${results.length} câu! ${worst?.feedback || ''}`.trim(),
+    teacherPraise: best?.teacherPraise || '',
+    suggestions: [...new Set(results.flatMap(r => r.suggestions))].slice(0, 3),
+    keyVocabulary: [],
+  };
+}
@@ -0,0 +1,137 @@
+import { timeStretch } from "./audioUtils";
+
+// ========================================
+// Teacher Player - pausable, seekable playback of the teacher voice
+// ========================================
+// An AudioBufferSourceNode can only be started once, so pause/seek/speed
+// changes stop the node and start a fresh one at the remembered position.
+// Speeds other than 1 play a time-stretched copy (same pitch), cached per
+// buffer so switching back and forth does not recompute it.
+
+export type PlayerStatus = 'idle' | 'playing' | 'paused';
+
+export interface TeacherPlayer {
+  play: (buffer: AudioBuffer, from?: number) => void;
+  pause: () => void;
+  resume: () => void;
+  seek: (time: number) => void;
+  stop: () => void;
+  setSpeed: (speed: number) => void;
+  playClip: (buffer: AudioBuffer) => void;   // One-off sound (a vocab word) alongside the main voice
+  getPosition: () => number;                 // Seconds in the original (unstretched) voice
+  getDuration: () => number;
+  getStatus: () => PlayerStatus;
+  dispose: () => void;                       // Stop and release the audio context when the owner unmounts
+}
+
+const stretchCache = new WeakMap<AudioBuffer, Map<number, AudioBuffer>>();
+
+function stretched(buffer: AudioBuffer, speed: number): AudioBuffer {
+  if (speed === 1) return buffer;
+  let bySpeed = stretchCache.get(buffer);
+  if (!bySpeed) { bySpeed = new Map(); stretchCache.set(buffer, bySpeed); }
+  let result = bySpeed.get(speed);
+  if (!result) { result = timeStretch(buffer, speed); bySpeed.set(speed, result); }
+  return result;
+}
+
+export function createTeacherPlayer(onStatusChange: (status: PlayerStatus) => void, initialSpeed = 1): TeacherPlayer {
+  let ctx: AudioContext | null = null;
+  let buffer: AudioBuffer | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let speed = initialSpeed;
+  let status: PlayerStatus = 'idle';
+  let position = 0;             // Where playback resumes from when not playing
+  let startedAt = 0;            // ctx.currentTime when the current node started
+  let startOffset = 0;
+
+  const getContext = () => {
+    if (!ctx) ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    return ctx;
+  };
+
+  const setStatus = (next: PlayerStatus) => {
+    status = next;
+    onStatusChange(next);
+  };
+
+  const getPosition = () => {
+    if (status !== 'playing' || !ctx || !buffer) return position;
+    return Math.min(buffer.duration, startOffset + (ctx.currentTime - startedAt) * speed);
+  };
+
+  const stopSource = () => {
+    if (!source) return;
+    source.onended = null;
+    source.stop();
+    source = null;
+  };
+
+  const startSource = (from: number) => {
+    if (!buffer) return;
+    const context = getContext();
+    stopSource();
+    const node = context.createBufferSource();
+    node.buffer = stretched(buffer, speed);
+    node.connect(context.destination);
+    node.onended = () => {
+      if (source !== node) return;
+      source = null;
+      position = 0;
+      setStatus('idle');
+    };
+    startOffset = Math.max(0, Math.min(from, buffer.duration));
+    startedAt = context.currentTime;
+    node.start(0, startOffset / speed);
+    source = node;
+    setStatus('playing');
+  };
+
+  return {
+    play: (next, from = 0) => {
+      buffer = next;
+      startSource(from);
+    },
+    pause: () => {
+      if (status !== 'playing') return;
+      position = getPosition();
+      stopSource();
+      setStatus('paused');
+    },
+    resume: () => {
+      if (status === 'paused') startSource(position);
+    },
+    seek: (time) => {
+      if (status === 'playing') startSource(time);
+      else position = Math.max(0, Math.min(time, buffer?.duration || 0));
+    },
+    stop: () => {
+      stopSource();
+      position = 0;
+      if (status !== 'idle') setStatus('idle');
+    },
+    setSpeed: (next) => {
+      if (next === speed) return;
+      const current = getPosition();
+      speed = next;
+      if (status === 'playing') startSource(current);
+    },
+    playClip: (clip) => {
+      const context = getContext();
+      const node = context.createBufferSource();
+      node.buffer = stretched(clip, speed);
+      node.connect(context.destination);
+      node.start(0);
+    },
+    getPosition,
+    getDuration: () => buffer?.duration || 0,
+    getStatus: () => status,
+    dispose: () => {
+      stopSource();
+      position = 0;
+      status = 'idle';
+      ctx?.close();
+      ctx = null;
+    },
+  };
+}
@@ -0,0 +1,168 @@
+import type { AIProviderId } from "./providers/aiProvider";
+import { loadApiKeys } from "./keyPool";
+
+// ========================================
+// Usage Ledger - every API request, persisted across reloads
+// ========================================
+// Free tier limits: 10 RPM, 250 RPD, 250K TPM per key. The daily quota resets at
+// midnight Pacific time, so "today" is counted in that time zone.
+// Token sizes are rough estimates - the SDK responses are not inspected.
+
+export type UsageOperation = 'illustration' | 'script' | 'speech' | 'evaluation' | 'vocabulary';
+export type UsageOutcome = 'ok' | 'rate-limited' | 'error';
+
+export interface UsageEntry {
+  at: number;                   // Timestamp the request was sent
+  provider: AIProviderId;
+  operation: UsageOperation;
+  model: string;
+  keyId?: string;               // Which pooled Gemini key served it, see keyPool
+  outcome: UsageOutcome;
+  approxTokens: number;
+}
+
+export interface UsageSummary {
+  budget: number;               // Daily budget of all pooled keys together
+  requests: number;
+  approxTokens: number;
+  remainingRequests: number;
+  lessonsLeft: number | null;   // null when lessons spend no Gemini requests
+  byOperation: Record<UsageOperation, number>;
+}
+
+const LEDGER_KEY = 'speakpro_usage_ledger';
+const KEEP_MS = 2 * 24 * 60 * 60 * 1000;
+
+export const DAILY_REQUEST_BUDGET = 250;
+
+// Rough response sizes per operation (image output is billed at a flat 1290 tokens)
+const RESPONSE_TOKENS: Record<UsageOperation, number> = {
+  illustration: 1290,
+  script: 500,
+  speech: 1500,
+  evaluation: 600,
+  vocabulary: 300,
+};
+
+export const OPERATION_LABELS: Record<UsageOperation, string> = {
+  illustration: 'Tranh minh họa',
+  script: 'Bài nói',
+  speech: 'Giọng đọc mẫu',
+  evaluation: 'Chấm bài',
+  vocabulary: 'Từ vựng',
+};
+
+export const approxTextTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Audio input is billed at 32 tokens per second. The length is guessed from
+ * the size: 16 kHz mono WAV is ~32 KB/s, compressed browser formats ~4 KB/s.
+ */
+export const approxAudioTokens = (base64: string, mimeType: string) => {
+  const bytes = (base64.length * 3) / 4;
+  const seconds = bytes / (mimeType === 'audio/wav' ? 32000 : 4000);
+  return Math.ceil(seconds * 32);
+};
+
+export const IMAGE_INPUT_TOKENS = 258;
+
+function loadLedger(): UsageEntry[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LEDGER_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordUsage(entry: Omit<UsageEntry, 'approxTokens'> & { inputTokens: number }): void {
+  const { inputTokens, ...rest } = entry;
+  const approxTokens = inputTokens + (entry.outcome === 'ok' ? RESPONSE_TOKENS[entry.operation] : 0);
+  const cutoff = Date.now() - KEEP_MS;
+  const ledger = loadLedger().filter(e => e.at >= cutoff);
+  ledger.push({ ...rest, approxTokens });
+  try {
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+  } catch (e) {
+    console.warn('[Usage] Saving ledger failed', e);
+  }
+}
+
+/**
+ * Send times of the provider's (or one key's) requests within the last `windowMs`, oldest first
+ */
+export function recentRequestTimes(provider: AIProviderId, windowMs: number, keyId?: string): number[] {
+  const since = Date.now() - windowMs;
+  return loadLedger()
+    .filter(e => e.provider === provider && e.at >= since && (!keyId || e.keyId === keyId))
+    .map(e => e.at)
+    .sort((a, b) => a - b);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PACIFIC_TIME_ZONE = 'America/Los_Angeles';
+
+const pacificDay = (time: number) => new Date(time).toLocaleDateString('en-CA', { timeZone: PACIFIC_TIME_ZONE });
+
+// Milliseconds since midnight on the Pacific wall clock
+function pacificClock(time: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: PACIFIC_TIME_ZONE, hourCycle: 'h23', hour: 'numeric', minute: 'numeric', second: 'numeric' }).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value || 0);
+  return ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + (time % 1000);
+}
+
+/**
+ * When the daily quota resets - the next midnight in Pacific time
+ */
+export function nextPacificMidnight(time = Date.now()): number {
+  const guess = time - pacificClock(time) + DAY_MS;
+  // A daylight-saving switch makes the day 23 or 25 hours long
+  const drift = pacificClock(guess);
+  return drift > DAY_MS / 2 ? guess + DAY_MS - drift : guess - drift;
+}
+
+function geminiEntriesToday(): UsageEntry[] {
+  const today = pacificDay(Date.now());
+  return loadLedger().filter(e => e.provider === 'gemini' && pacificDay(e.at) === today);
+}
+
+/**
+ * Gemini requests made today, per pooled key
+ */
+export function requestsTodayByKey(): Record<string, number> {
+  const counts: Record<string, number> = {};
+  geminiEntriesToday().forEach(e => { if (e.keyId) counts[e.keyId] = (counts[e.keyId] || 0) + 1; });
+  return counts;
+}
+
+/**
+ * Gemini requests made today against the budget of all pooled keys. Rejected
+ * requests count too - the budget is a safety margin, not an exact mirror of
+ * Google's counter. `requestsPerLesson` is what one lesson and its evaluation
+ * cost with the current routing, see geminiRequestsFor.
+ */
+export function getUsageSummary(requestsPerLesson = 0): UsageSummary {
+  const entries = geminiEntriesToday();
+  const budget = DAILY_REQUEST_BUDGET * Math.max(1, loadApiKeys().length);
+  const byOperation: Record<UsageOperation, number> = { illustration: 0, script: 0, speech: 0, evaluation: 0, vocabulary: 0 };
+  entries.forEach(e => { byOperation[e.operation] = (byOperation[e.operation] || 0) + 1; });
+  const remainingRequests = Math.max(0, budget - entries.length);
+  return {
+    budget,
+    requests: entries.length,
+    approxTokens: entries.reduce((sum, e) => sum + e.approxTokens, 0),
+    remainingRequests,
+    lessonsLeft: requestsPerLesson > 0 ? Math.floor(remainingRequests / requestsPerLesson) : null,
+    byOperation,
+  };
+}
+
+/**
+ * Warning to confirm before an action needing `requests` Gemini requests, or null if it fits
+ */
+export function budgetWarning(requests: number): string | null {
+  if (requests <= 0) return null;
+  const { remainingRequests, budget } = getUsageSummary();
+  if (remainingRequests >= requests) return null;
+  return `⚠️ Hôm nay chỉ còn khoảng ${remainingRequests}/${budget} lượt gọi API, việc này cần ${requests} lượt.\n\nCó thể bị báo hết quota. Vẫn tiếp tục?`;
+}
@@ -0,0 +1,94 @@
+import { VocabularyItem, VocabCard, VocabReview, QuizDirection } from "../types";
+import { STORES, putRecord, getRecord, getAllByIndex, deleteRecord } from "./db";
+
+// ========================================
+// Vocabulary Deck - SM-2 spaced repetition over lessonVocab
+// ========================================
+// https://super-memory.com/english/ol/sm2.htm
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const QUIZ_DIRECTIONS: QuizDirection[] = ['emoji-to-word', 'word-to-translation', 'audio-to-word'];
+
+const cardId = (profileId: string, word: string) => `${profileId}:${word.trim().toLowerCase()}`;
+
+/**
+ * Pure SM-2 step. quality: 0 (blackout) .. 5 (perfect recall); < 3 restarts the card
+ * without touching its easiness.
+ */
+export function scheduleReview(card: VocabCard, quality: number, now = Date.now()): VocabCard {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  let easiness = card.easiness;
+  let repetitions: number;
+  let interval: number;
+  if (q < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    easiness = Math.max(1.3, card.easiness + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easiness);
+  }
+
+  return { ...card, easiness, repetitions, interval, dueAt: now + interval * DAY_MS, lastReviewedAt: now };
+}
+
+/**
+ * Add a lesson's vocabulary to the learner's deck. Words already in the deck
+ * keep their schedule; only the theme list and details are refreshed.
+ */
+export const addLessonVocab = async (profileId: string, items: VocabularyItem[], theme: string): Promise<void> => {
+  const now = Date.now();
+  for (const item of items) {
+    if (!item.word?.trim()) continue;
+    const id = cardId(profileId, item.word);
+    const existing = await getRecord<VocabCard>(STORES.vocabCards, id);
+    const card: VocabCard = existing
+      ? { ...existing, item: { ...existing.item, ...item }, themes: [...new Set([...existing.themes, theme])] }
+      : { id, profileId, item, themes: [theme], easiness: 2.5, interval: 0, repetitions: 0, dueAt: now, createdAt: now };
+    await putRecord(STORES.vocabCards, card);
+  }
+};
+
+export const listCards = async (profileId: string): Promise<VocabCard[]> => {
+  return getAllByIndex<VocabCard>(STORES.vocabCards, 'profileId', profileId);
+};
+
+/**
+ * Cards due now, most overdue first
+ */
+export const listDueCards = async (profileId: string, now = Date.now()): Promise<VocabCard[]> => {
+  const cards = await listCards(profileId);
+  return cards.filter(c => c.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+};
+
+/**
+ * Grade one quiz answer: reschedule the card and keep a review log entry
+ */
+export const recordReview = async (card: VocabCard, quality: number, direction: QuizDirection): Promise<VocabCard> => {
+  const updated = scheduleReview(card, quality);
+  const review: VocabReview = {
+    id: crypto.randomUUID(),
+    profileId: card.profileId,
+    cardId: card.id,
+    direction,
+    quality,
+    reviewedAt: updated.lastReviewedAt!,
+  };
+  await putRecord(STORES.vocabCards, updated);
+  await putRecord(STORES.vocabReviews, review);
+  return updated;
+};
+
+export const listReviews = async (profileId: string): Promise<VocabReview[]> => {
+  return getAllByIndex<VocabReview>(STORES.vocabReviews, 'profileId', profileId);
+};
+
+export const deleteDeckForProfile = async (profileId: string): Promise<void> => {
+  const [cards, reviews] = await Promise.all([listCards(profileId), listReviews(profileId)]);
+  await Promise.all([
+    ...cards.map(c => deleteRecord(STORES.vocabCards, c.id)),
+    ...reviews.map(r => deleteRecord(STORES.vocabReviews, r.id)),
+  ]);
+};
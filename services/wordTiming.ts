@@ -0,0 +1,91 @@
+import { frameRms } from "./audioUtils";
+
+// ========================================
+// Word Timing - estimate when each script word is spoken in the TTS audio
+// ========================================
+// TTS returns raw PCM without timestamps. Voiced time is shared out between
+// the words in proportion to their syllable counts; silences do not use up
+// any budget, so sentence pauses land between words. Boundaries close to a
+// real silence are then snapped onto it.
+
+export interface WordTiming {
+  start: number;                // Seconds
+  end: number;
+}
+
+const FRAME_MS = 10;
+const VOICE_RMS = 0.01;
+const MIN_GAP_MS = 80;          // Quieter stretches shorter than this are inside a word
+const SNAP_MS = 150;            // How far a boundary may move to reach a silence
+
+/**
+ * Rough English syllable count: vowel groups, minus a silent final "e"
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return /\d/.test(word) ? 2 : 0;
+  const groups = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+export function estimateWordTimings(buffer: AudioBuffer, words: string[]): WordTiming[] {
+  const frameSec = FRAME_MS / 1000;
+  const voiced = frameRms(buffer.getChannelData(0), buffer.sampleRate, FRAME_MS).map(rms => rms >= VOICE_RMS);
+
+  // Cumulative voiced frames up to (not including) each frame
+  const cumulative = new Array<number>(voiced.length + 1).fill(0);
+  voiced.forEach((v, i) => { cumulative[i + 1] = cumulative[i] + (v ? 1 : 0); });
+  const totalVoiced = cumulative[voiced.length];
+
+  // Silent gaps, as [startFrame, endFrame)
+  const gaps: [number, number][] = [];
+  let gapStart = -1;
+  voiced.forEach((v, i) => {
+    if (!v && gapStart < 0) gapStart = i;
+    if (v && gapStart >= 0) {
+      if ((i - gapStart) * FRAME_MS >= MIN_GAP_MS) gaps.push([gapStart, i]);
+      gapStart = -1;
+    }
+  });
+
+  const syllables = words.map(countSyllables);
+  const totalSyllables = syllables.reduce((a, b) => a + b, 0);
+  if (totalVoiced === 0 || totalSyllables === 0) {
+    // Nothing to segment - fall back to an even split
+    const step = buffer.duration / Math.max(1, words.length);
+    return words.map((_, i) => ({ start: i * step, end: (i + 1) * step }));
+  }
+
+  // First frame at which `target` voiced frames have been spoken
+  const frameForVoiced = (target: number) => {
+    let lo = 0;
+    let hi = voiced.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] < target) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  };
+
+  const snapFrames = SNAP_MS / FRAME_MS;
+  const nearestGap = (frame: number) => gaps.find(([s, e]) => frame >= s - snapFrames && frame <= e + snapFrames);
+
+  let spoken = 0;
+  let previousEnd = 0;
+  return words.map((_, i) => {
+    const startVoiced = (spoken / totalSyllables) * totalVoiced;
+    spoken += syllables[i];
+    const endVoiced = (spoken / totalSyllables) * totalVoiced;
+
+    let startFrame = Math.max(previousEnd, frameForVoiced(startVoiced + 1) - 1);
+    let endFrame = Math.max(startFrame, frameForVoiced(endVoiced));
+    const startGap = nearestGap(startFrame);
+    if (startGap) startFrame = Math.max(previousEnd, startGap[1]);
+    const endGap = i < words.length - 1 ? nearestGap(endFrame) : undefined;
+    if (endGap && endGap[0] > startFrame) endFrame = endGap[0];
+    endFrame = Math.max(endFrame, startFrame);
+    previousEnd = endFrame;
+
+    return { start: startFrame * frameSec, end: endFrame * frameSec };
+  });
+}
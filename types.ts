@@ -17,6 +17,7 @@ export interface VocabularyItem {
 }
 
 export interface PresentationData {
+  theme: string;
   imageUri: string;
   script: string;
   intro: string;
@@ -24,6 +25,15 @@ export interface PresentationData {
   conclusion: string;
   level: CEFRLevel;
   lessonVocab: VocabularyItem[]; // Từ vựng mới của bài học
+  scriptWithoutImage?: boolean;  // Script was written from the theme alone and can be rewritten from the picture
+}
+
+export type WordMatchStatus = 'correct' | 'missed' | 'substituted' | 'inserted';
+
+export interface AlignedWord {
+  word: string;        // Word from the script (or what the child said, for insertions)
+  status: WordMatchStatus;
+  spoken?: string;     // What the child actually said, for substitutions
 }
 
 export interface EvaluationResult {
@@ -41,6 +51,89 @@ export interface EvaluationResult {
   transcript: string;
   suggestions: string[];
   keyVocabulary: VocabularyItem[];
+  wordAlignment: AlignedWord[];
+  fluencyStats?: FluencyStats;  // Measured locally from the recording
+}
+
+export interface FluencyStats {
+  wordsPerMinute: number;
+  pauseCount: number;
+  averagePause: number;         // Seconds
+  longestPause: number;         // Seconds - the longest hesitation
+  speechRatio: number;          // Voiced time / total time, 0-1
+}
+
+export type ScoreCriterion = 'pronunciation' | 'fluency' | 'intonation' | 'vocabulary' | 'grammar' | 'taskFulfillment';
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  avatar: string;               // emoji
+  defaultLevel: CEFRLevel;
+  playbackSpeed: number;
+  voice: VoiceSettings;
+}
+
+export type VoiceAccent = 'american' | 'british';
+export type VoicePace = 'level' | 'slow' | 'normal' | 'natural';
+
+export interface VoiceSettings {
+  voiceName: string;            // Prebuilt TTS voice, e.g. 'Kore'
+  accent: VoiceAccent;
+  pace: VoicePace;              // 'level' = slower for young learners, natural for C1/C2
+}
+
+export interface PracticeAttempt {
+  id: string;
+  profileId: string;
+  createdAt: number;            // epoch ms
+  theme: string;
+  level: CEFRLevel;
+  presentation: PresentationData;
+  result: EvaluationResult;
+  recording: Blob;              // Bản ghi âm gốc của bé
+}
+
+export type QuizDirection = 'emoji-to-word' | 'word-to-translation' | 'audio-to-word';
+
+export interface VocabCard {
+  id: string;                   // `${profileId}:${word}` - one card per word per learner
+  profileId: string;
+  item: VocabularyItem;
+  themes: string[];             // Lessons the word appeared in
+  easiness: number;             // SM-2 E-Factor, >= 1.3
+  interval: number;             // days until next review
+  repetitions: number;          // consecutive successful reviews
+  dueAt: number;                // epoch ms
+  createdAt: number;
+  lastReviewedAt?: number;
+}
+
+export interface VocabReview {
+  id: string;
+  profileId: string;
+  cardId: string;
+  direction: QuizDirection;
+  quality: number;              // SM-2 grade 0-5
+  reviewedAt: number;
+}
+
+export interface CachedAudio {
+  sampleRate: number;
+  channels: Float32Array[];     // AudioBuffer itself cannot be stored in IndexedDB
+  voiceKey?: string;            // Voice it was spoken in; missing = the original default voice
+}
+
+export interface SavedLesson {
+  id: string;                   // `${level}:${normalized theme}` - one lesson per theme and level
+  title: string;                // Teacher-editable name, defaults to the theme
+  theme: string;
+  level: CEFRLevel;
+  presentation: PresentationData;
+  teacherAudio?: CachedAudio;
+  pinned: boolean;
+  createdAt: number;
+  lastUsedAt: number;
 }
 
 export enum AppStatus {
@@ -49,6 +142,7 @@ export enum AppStatus {
   READY = 'READY',
   RECORDING = 'RECORDING',
   REVIEWING = 'REVIEWING',
+  SHADOWING = 'SHADOWING',
   EVALUATING = 'EVALUATING',
   RESULT = 'RESULT',
   ERROR = 'ERROR'